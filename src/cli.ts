@@ -0,0 +1,348 @@
+#!/usr/bin/env node
+/**
+ * IDE Auto Retry - Headless CLI
+ * Attaches to an already-running Electron IDE / Chromium window over CDP and
+ * auto-retries without the VS Code extension host.
+ *
+ * Usage: ide-auto-retry watch --port 31905 --rules rules.json
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ButtonRule,
+  CDPConfig,
+  CDPEndpoint,
+  CDPEvent,
+  CDPHandler,
+  DEFAULT_ACCEPT_ALL_GUARDS,
+  DEFAULT_CDP_SETTINGS,
+  DEFAULT_TARGET_FILTER,
+  ErrorCategory,
+  TargetFilter
+} from './services/CDPHandler';
+import { AuditLog } from './services/AuditLog';
+import { ErrorSnapshotStore } from './services/ErrorSnapshots';
+import { ESCALATION_KINDS, Escalator } from './services/Escalation';
+
+const USAGE = `Usage: ide-auto-retry watch [options]
+
+Options:
+  --host <host>             CDP host, e.g. a dev container or SSH forward (default: 127.0.0.1)
+  --port <port>             CDP remote debugging port (default: ${DEFAULT_CDP_SETTINGS.cdpPort})
+  --range <n>               Port range to scan, port ± n (default: ${DEFAULT_CDP_SETTINGS.cdpPortRange})
+  --secure                  Use https:// and wss:// for the CDP endpoint
+  --token <token>           Send "Authorization: Bearer <token>" to the CDP endpoint
+  --header <name: value>    Extra header for the CDP endpoint (repeatable)
+  --rules <file>            JSON file with a rules array, or { "rules": [...], "errorCategories": [...],
+                            "bannedCommands": [...], "allowedCommands": [...], "approvedCommands": [...],
+                            "acceptAllGuards": {...} }
+  --accept-all              Also click "Accept All" controls
+  --auto-continue           Also click "Continue" when an agent pauses at a tool-call or iteration limit
+  --max-continues <n>       Continue clicks in a row before waiting for input (default: 10)
+  --approve <pattern>       Approve "Run command?" prompts for commands matching the pattern (repeatable,
+                            added to "approvedCommands" of the rules file); the banned list always wins
+  --dry-run                 Report what would be clicked without clicking
+  --highlight-clicks        Flash an outline and a label next to clicked elements in the IDE
+  --poll-interval <ms>      Interval between retry checks (default: 1000)
+  --cooldown <ms>           Base backoff between Retry clicks on the same panel (default: 5000)
+  --max-backoff <ms>        Upper bound for the backoff (default: 300000)
+  --max-attempts <n>        Retry clicks per error panel before giving up (default: 5)
+  --max-connections <n>     Maximum CDP connections (default: ${DEFAULT_CDP_SETTINGS.maxConnections})
+  --include <pattern>       Only inject into targets whose title or URL matches (repeatable)
+  --exclude <pattern>       Skip targets whose title or URL matches (repeatable)
+  --ide <name>              IDE behind the endpoint ("VS Code", "Cursor", "Antigravity"), to pick
+                            its agent adapters (default: adapters of every IDE)
+  --audit-log <dir>         Append events as JSONL to <dir>/events.jsonl
+  --snapshots <dir>         Save a sanitized copy of each retried error panel to <dir> (last 50)
+  --screenshots             With --snapshots, also save a screenshot of the panel (delays the click by 300ms)
+  --escalate-after <n>      Escalate after n consecutive retries on one panel, 0 = never (default: 3)
+  --hook <command>          Shell command run on escalations, with the event as JSON on stdin
+  -h, --help                Show this help
+`;
+
+// Rescan interval, same as the extension's maintenance loop
+const RESCAN_INTERVAL = 10000;
+
+interface CLIOptions {
+  endpoint: CDPEndpoint;
+  maxConnections: number;
+  targets: TargetFilter;
+  ide?: string;
+  rulesFile?: string;
+  auditLogDir?: string;
+  snapshotDir?: string;
+  escalateAfter: number;
+  hook?: string;
+  config: CDPConfig;
+}
+
+/**
+ * Parse command line arguments (after the "watch" command)
+ */
+function parseArgs(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    endpoint: { host: '127.0.0.1', port: DEFAULT_CDP_SETTINGS.cdpPort, range: DEFAULT_CDP_SETTINGS.cdpPortRange },
+    maxConnections: DEFAULT_CDP_SETTINGS.maxConnections,
+    targets: { ...DEFAULT_TARGET_FILTER, include: [], exclude: [] },
+    escalateAfter: 3,
+    config: {}
+  };
+
+  const takeNumber = (flag: string, value: string | undefined): number => {
+    const n = Number(value);
+    if (value === undefined || !Number.isFinite(n)) {
+      throw new Error(`${flag} expects a number`);
+    }
+    return n;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    switch (flag) {
+      case '--host':
+        options.endpoint.host = args[++i];
+        if (!options.endpoint.host) throw new Error('--host expects a host');
+        break;
+      case '--port':
+        options.endpoint.port = takeNumber(flag, args[++i]);
+        break;
+      case '--range':
+        options.endpoint.range = takeNumber(flag, args[++i]);
+        break;
+      case '--secure':
+        options.endpoint.secure = true;
+        break;
+      case '--token':
+        options.endpoint.token = args[++i];
+        if (!options.endpoint.token) throw new Error('--token expects a token');
+        break;
+      case '--header': {
+        const header = args[++i] ?? '';
+        const colon = header.indexOf(':');
+        if (colon <= 0) throw new Error('--header expects "Name: value"');
+        options.endpoint.headers = { ...options.endpoint.headers, [header.slice(0, colon).trim()]: header.slice(colon + 1).trim() };
+        break;
+      }
+      case '--rules':
+        options.rulesFile = args[++i];
+        if (!options.rulesFile) throw new Error('--rules expects a file');
+        break;
+      case '--accept-all':
+        options.config.acceptAll = true;
+        break;
+      case '--auto-continue':
+        options.config.autoContinue = true;
+        break;
+      case '--max-continues':
+        options.config.maxConsecutiveContinues = takeNumber(flag, args[++i]);
+        break;
+      case '--approve': {
+        const pattern = args[++i];
+        if (!pattern) throw new Error('--approve expects a pattern');
+        options.config.approvedCommands = [...(options.config.approvedCommands ?? []), pattern];
+        break;
+      }
+      case '--dry-run':
+        options.config.dryRun = true;
+        break;
+      case '--highlight-clicks':
+        options.config.highlightClicks = true;
+        break;
+      case '--poll-interval':
+        options.config.pollInterval = takeNumber(flag, args[++i]);
+        break;
+      case '--cooldown':
+        options.config.cooldown = takeNumber(flag, args[++i]);
+        break;
+      case '--max-backoff':
+        options.config.maxBackoff = takeNumber(flag, args[++i]);
+        break;
+      case '--max-attempts':
+        options.config.maxRetryAttempts = takeNumber(flag, args[++i]);
+        break;
+      case '--max-connections':
+        options.maxConnections = takeNumber(flag, args[++i]);
+        break;
+      case '--include':
+      case '--exclude': {
+        const pattern = args[++i];
+        if (!pattern) throw new Error(`${flag} expects a pattern`);
+        options.targets[flag === '--include' ? 'include' : 'exclude'].push(pattern);
+        break;
+      }
+      case '--ide':
+        options.ide = args[++i];
+        if (!options.ide) throw new Error('--ide expects an IDE name');
+        break;
+      case '--audit-log':
+        options.auditLogDir = args[++i];
+        if (!options.auditLogDir) throw new Error('--audit-log expects a directory');
+        break;
+      case '--snapshots':
+        options.snapshotDir = args[++i];
+        if (!options.snapshotDir) throw new Error('--snapshots expects a directory');
+        break;
+      case '--screenshots':
+        options.config.captureScreenshots = true;
+        break;
+      case '--escalate-after':
+        options.escalateAfter = takeNumber(flag, args[++i]);
+        break;
+      case '--hook':
+        options.hook = args[++i];
+        if (!options.hook) throw new Error('--hook expects a command');
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Load button rules (and optionally error categories and command patterns) from a JSON file
+ */
+function loadRulesFile(file: string): Pick<CDPConfig, 'rules' | 'errorCategories' | 'bannedCommands' | 'allowedCommands' | 'approvedCommands' | 'acceptAllGuards'> {
+  const content = JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+
+  if (Array.isArray(content)) {
+    return { rules: content as ButtonRule[] };
+  }
+  if (content && typeof content === 'object') {
+    return {
+      rules: Array.isArray(content.rules) ? content.rules as ButtonRule[] : undefined,
+      errorCategories: Array.isArray(content.errorCategories) ? content.errorCategories as ErrorCategory[] : undefined,
+      bannedCommands: Array.isArray(content.bannedCommands) ? content.bannedCommands as string[] : undefined,
+      allowedCommands: Array.isArray(content.allowedCommands) ? content.allowedCommands as string[] : undefined,
+      approvedCommands: Array.isArray(content.approvedCommands) ? content.approvedCommands as string[] : undefined,
+      acceptAllGuards: content.acceptAllGuards && typeof content.acceptAllGuards === 'object'
+        ? { ...DEFAULT_ACCEPT_ALL_GUARDS, ...content.acceptAllGuards }
+        : undefined
+    };
+  }
+  throw new Error(`${file} must contain a rules array or an object with "rules"`);
+}
+
+function log(message: string): void {
+  const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
+  console.log(`[${timestamp}] ${message}`);
+}
+
+/**
+ * Print an event reported by an injected page
+ */
+function printEvent(event: CDPEvent): void {
+  const category = event.category ? ` [${event.category}]` : '';
+  const errorText = event.errorText ? `: ${event.errorText.slice(0, 120)}` : '';
+  const command = event.command ? `: ${event.command}` : '';
+
+  switch (event.type) {
+    case 'clicked':
+      log(`✅ Clicked "${event.buttonText}"${category} on ${event.pageId}${event.adapter ? ` via ${event.adapter}` : ''}${event.attempts ? ` (attempt ${event.attempts})` : ''}${command}`);
+      break;
+    case 'would-click':
+      log(`👀 Would click "${event.buttonText}" (${event.element})${category} via rule "${event.rule}" on ${event.pageId}${errorText}`);
+      break;
+    case 'blocked':
+      if (event.reason === 'continue-limit') {
+        log(`⛔ Not continuing on ${event.pageId} after ${event.attempts} continues in a row${errorText}`);
+        break;
+      }
+      log(`⚠️ Blocked "${event.buttonText}"${category} on ${event.pageId} (${event.guard ?? event.reason}${event.pattern ? `, matched ${event.pattern}` : ''})${errorText}${command}`);
+      break;
+    case 'circuit-open':
+      log(`⛔ Gave up after ${event.attempts} retries${category} on ${event.pageId}${errorText}`);
+      break;
+    case 'notify':
+      log(`🔔 Rule "${event.rule}" matched "${event.buttonText}" on ${event.pageId}${errorText}`);
+      break;
+    case 'error-detected':
+      log(`Error detected${category} on ${event.pageId}${errorText}`);
+      break;
+    case 'disconnected':
+      log(`Disconnected from ${event.pageId}`);
+      break;
+  }
+}
+
+/**
+ * Watch CDP pages until interrupted
+ */
+async function watch(options: CLIOptions): Promise<void> {
+  const rules = options.rulesFile ? loadRulesFile(options.rulesFile) : {};
+  // Approved commands from the rules file and --approve add up; either turns command approval on
+  const approvedCommands = [...(rules.approvedCommands ?? []), ...(options.config.approvedCommands ?? [])];
+  const config: CDPConfig = {
+    ...options.config,
+    ...rules,
+    commandApproval: approvedCommands.length > 0,
+    approvedCommands,
+    captureSnapshots: !!options.snapshotDir,
+    captureScreenshots: !!options.snapshotDir && !!options.config.captureScreenshots
+  };
+
+  const handler = new CDPHandler(() => ({
+    cdpPort: options.endpoint.port,
+    cdpPortRange: options.endpoint.range ?? 0,
+    maxConnections: options.maxConnections,
+    endpoints: [options.endpoint],
+    targets: options.targets,
+    ide: options.ide
+  }));
+  const auditLog = options.auditLogDir ? new AuditLog(options.auditLogDir) : undefined;
+  const snapshots = options.snapshotDir ? new ErrorSnapshotStore(options.snapshotDir) : undefined;
+
+  const escalator = new Escalator(() => ({
+    retryThreshold: options.escalateAfter,
+    hook: options.hook ?? '',
+    hookEvents: ESCALATION_KINDS
+  }), message => log(`⚠️ ${message}`));
+
+  handler.setEventCallback(events => {
+    for (const event of events) {
+      if (event.snapshot) snapshots?.add(event);
+    }
+    events = events.map(({ snapshot, ...event }) => event);
+    auditLog?.append(events.filter(event => event.type !== 'health'));
+    for (const event of events) {
+      printEvent(event);
+      const escalation = escalator.handle(event);
+      if (escalation?.kind === 'repeated-retries') log(`📣 ${escalation.message}`);
+    }
+  });
+
+  log(`Watching CDP on ${handler.getEndpoints().map(e => e.label).join(', ')}`);
+  await handler.start(config);
+
+  const timer = setInterval(() => handler.start(config), RESCAN_INTERVAL);
+
+  const shutdown = async () => {
+    clearInterval(timer);
+    log('Stopping...');
+    await handler.stop();
+    await escalator.flush();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'watch') {
+    throw new Error(`Unknown command: ${command}`);
+  }
+
+  await watch(parseArgs(args));
+}
+
+main(process.argv.slice(2)).catch((e: Error) => {
+  console.error(`ide-auto-retry: ${e.message}\n\n${USAGE}`);
+  process.exit(1);
+});
@@ -9,6 +9,10 @@ import { SidePanelProvider } from './ui/SidePanelProvider';
 let autoRetryService: AutoRetryService | undefined;
 let sidePanelProvider: SidePanelProvider | undefined;
 let statusBarItem: vscode.StatusBarItem | undefined;
+let profileStatusBarItem: vscode.StatusBarItem | undefined;
+
+// How long "Highlight Candidate Buttons" keeps its outlines on the pages
+const HIGHLIGHT_DURATION = 8000;
 
 /**
  * Update status bar item based on current state
@@ -17,26 +21,92 @@ function updateStatusBar(): void {
   if (!statusBarItem || !autoRetryService) return;
   
   const status = autoRetryService.getStatus();
+  const schedule = autoRetryService.getScheduleState();
+  const scheduleText = schedule.enabled ? `\nSchedule: ${schedule.active ? 'on' : 'off'} (${schedule.reason})` : '';
   
-  if (status.running) {
+  if (status.reconnecting && !status.running) {
+    // Reconnecting state: every page is gone, the supervisor is backing off
+    statusBarItem.text = `$(sync~spin) IDEAutoRetry: reconnecting`;
+    statusBarItem.tooltip = 'IDE Auto Retry lost its CDP connection and is reconnecting\n\nClick to open panel';
+    statusBarItem.color = new vscode.ThemeColor('charts.yellow');
+    statusBarItem.backgroundColor = undefined;
+  } else if (status.attention) {
+    // Needs attention: sticky until the panel is opened or the warning dismissed
+    statusBarItem.text = `$(warning) IDEAutoRetry: needs attention`;
+    statusBarItem.tooltip = `${status.attention}${scheduleText}\n\nClick to open panel`;
+    statusBarItem.color = undefined;
+    statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+  } else if (status.running) {
     // Running state: green dot + stats
     const parts: string[] = [];
     if (status.clicks > 0) parts.push(`${status.clicks} retries`);
     if (status.acceptAllClicks > 0) parts.push(`${status.acceptAllClicks} accepts`);
+    if (status.continueClicks > 0) parts.push(`${status.continueClicks} continues`);
+    if (status.commandApprovals > 0) parts.push(`${status.commandApprovals} commands`);
+    if (status.wouldClick > 0) parts.push(`${status.wouldClick} would-click`);
     const statsText = parts.length > 0 ? `: ${parts.join(', ')}` : '';
     statusBarItem.text = `$(circle-filled) IDEAutoRetry${statsText}`;
-    statusBarItem.tooltip = `IDE Auto Retry is running\nConnections: ${status.connectionCount}\nRetries: ${status.clicks}\nAccepts: ${status.acceptAllClicks}\n\nClick to open panel`;
+    statusBarItem.tooltip = `IDE Auto Retry is running\nConnections: ${status.connectionCount}\nRetries: ${status.clicks}\nAccepts: ${status.acceptAllClicks}\nContinues: ${status.continueClicks}\nApproved commands: ${status.commandApprovals}\nWould click (dry run): ${status.wouldClick}${scheduleText}\n\nClick to open panel`;
     statusBarItem.color = new vscode.ThemeColor('charts.green');
     statusBarItem.backgroundColor = undefined;
   } else {
     // Stopped state: gray circle
     statusBarItem.text = `$(circle-outline) IDEAutoRetry`;
-    statusBarItem.tooltip = 'IDE Auto Retry is stopped\n\nClick to open panel';
+    statusBarItem.tooltip = `IDE Auto Retry is stopped${scheduleText}\n\nClick to open panel`;
     statusBarItem.color = undefined;
     statusBarItem.backgroundColor = undefined;
   }
   
   statusBarItem.show();
+  updateProfileStatusBar();
+}
+
+/**
+ * Show the active profile next to the status item (click to switch)
+ */
+function updateProfileStatusBar(): void {
+  if (!profileStatusBarItem || !autoRetryService) return;
+
+  const active = autoRetryService.getActiveProfile();
+  const scopes = { workspace: 'this workspace', ide: autoRetryService.getIdeName(), global: 'all workspaces' };
+  profileStatusBarItem.text = `$(layers) ${active?.name ?? 'no profile'}`;
+  profileStatusBarItem.tooltip = active
+    ? `IDE Auto Retry profile "${active.name}" (${scopes[active.scope]})\n\nClick to switch profile`
+    : 'IDE Auto Retry uses the plain settings\n\nClick to choose a profile';
+  profileStatusBarItem.show();
+}
+
+/**
+ * Quick pick for the active profile and the scope it applies to
+ */
+async function selectProfile(): Promise<void> {
+  if (!autoRetryService) return;
+
+  const profiles = autoRetryService.getProfiles();
+  const active = autoRetryService.getActiveProfile();
+  const items: (vscode.QuickPickItem & { profile?: string })[] = [
+    ...Object.entries(profiles).map(([name, profile]) => ({
+      label: name,
+      description: name === active?.name ? 'active' : undefined,
+      detail: Object.entries(profile).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', '),
+      profile: name
+    })),
+    { label: 'No profile', description: 'use the plain settings' }
+  ];
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select an IDE Auto Retry profile' });
+  if (!picked) return;
+
+  const ideName = autoRetryService.getIdeName();
+  const scopes: (vscode.QuickPickItem & { scope: 'workspace' | 'ide' | 'global' })[] = [
+    ...(vscode.workspace.workspaceFolders ? [{ label: 'This workspace', scope: 'workspace' as const }] : []),
+    { label: `Every ${ideName} window`, scope: 'ide' },
+    { label: 'All workspaces', scope: 'global' }
+  ];
+  const scope = await vscode.window.showQuickPick(scopes, { placeHolder: `Where should "${picked.label}" apply?` });
+  if (!scope) return;
+
+  await autoRetryService.setActiveProfile(picked.profile, scope.scope);
+  sidePanelProvider?.refreshSettings();
 }
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
@@ -51,8 +121,16 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   statusBarItem.name = 'IDE Auto Retry Status';
   context.subscriptions.push(statusBarItem);
 
+  profileStatusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    99
+  );
+  profileStatusBarItem.command = 'ideAutoRetry.selectProfile';
+  profileStatusBarItem.name = 'IDE Auto Retry Profile';
+  context.subscriptions.push(profileStatusBarItem);
+
   // Initialize services
-  autoRetryService = new AutoRetryService();
+  autoRetryService = new AutoRetryService(context.globalStorageUri.fsPath, context.workspaceState);
 
   // Register side panel first (before setting callback)
   sidePanelProvider = new SidePanelProvider(context.extensionUri, autoRetryService);
@@ -66,6 +144,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   // Set up status bar update callback (also updates panel stats)
   autoRetryService.setStatusUpdateCallback(() => {
     updateStatusBar();
+    sidePanelProvider?.updateStatus();
     sidePanelProvider?.updateStats();
   });
 
@@ -93,7 +172,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
     vscode.commands.registerCommand('ideAutoRetry.toggle', async () => {
       const status = autoRetryService?.getStatus();
-      if (status?.running) {
+      if (status?.running || status?.reconnecting) {
         await autoRetryService?.stop();
       } else {
         await autoRetryService?.start();
@@ -107,9 +186,68 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       sidePanelProvider?.updateStatus();
     }),
 
+    vscode.commands.registerCommand('ideAutoRetry.selectProfile', selectProfile),
+
     vscode.commands.registerCommand('ideAutoRetry.openPanel', () => {
-      // Focus the webview view in the sidebar
+      // Focus the webview view in the sidebar; the user sees any pending warning there
+      autoRetryService?.acknowledgeAttention();
       vscode.commands.executeCommand('ideAutoRetry.mainPanel.focus');
+    }),
+
+    vscode.commands.registerCommand('ideAutoRetry.openAuditLog', async () => {
+      const logPath = autoRetryService?.getAuditLogPath();
+      try {
+        if (!logPath) throw new Error('storage is not available');
+        const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(logPath));
+        await vscode.window.showTextDocument(doc);
+      } catch (error) {
+        vscode.window.showInformationMessage(`No audit log yet: ${(error as Error).message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('ideAutoRetry.highlightCandidates', async () => {
+      if (!autoRetryService?.getStatus().running) {
+        vscode.window.showInformationMessage('Start Auto Retry to highlight candidate buttons');
+        return;
+      }
+      const candidates = await autoRetryService.highlightCandidates(HIGHLIGHT_DURATION);
+      const matches = candidates.filter(candidate => candidate.status === 'match').length;
+      vscode.window.showInformationMessage(candidates.length === 0
+        ? 'No control matches a rule on the connected pages'
+        : `Outlined ${candidates.length} candidate(s), ${matches} would be clicked. Details are in the panel log.`);
+    })
+  );
+
+  // User activity for the scheduler's idle detection (agent edits and focus loss do not count)
+  const recordActivity = () => autoRetryService?.recordActivity();
+  let windowState = vscode.window.state;
+  context.subscriptions.push(
+    // active turns on with keyboard or mouse input anywhere in the window, including the agent chat webviews
+    vscode.window.onDidChangeWindowState(state => {
+      if ((state.focused && !windowState.focused) || (state.active && !windowState.active)) recordActivity();
+      windowState = state;
+    }),
+    vscode.window.onDidChangeActiveTextEditor(recordActivity),
+    vscode.window.onDidChangeTextEditorSelection(e => {
+      if (e.kind === vscode.TextEditorSelectionChangeKind.Keyboard || e.kind === vscode.TextEditorSelectionChangeKind.Mouse) {
+        recordActivity();
+      }
+    }),
+    vscode.window.onDidChangeActiveTerminal(recordActivity)
+  );
+  autoRetryService.startScheduler();
+
+  // Hot-apply setting changes to the running service
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (!e.affectsConfiguration('ideAutoRetry')) return;
+      try {
+        await autoRetryService?.applyConfigurationChange(e);
+      } catch (error) {
+        console.error('[IDE Auto Retry] Failed to apply settings:', error);
+      }
+      sidePanelProvider?.refreshSettings();
+      updateStatusBar();
     })
   );
 
@@ -132,7 +270,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   console.log('IDE Auto Retry activated!');
 }
 
-export function deactivate(): void {
-  autoRetryService?.stop();
+export function deactivate(): Promise<void> | undefined {
   console.log('IDE Auto Retry deactivated');
+  // VS Code waits for the returned promise (webhook flush, CDP shutdown)
+  return autoRetryService?.dispose();
 }
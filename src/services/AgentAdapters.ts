@@ -0,0 +1,82 @@
+/**
+ * AgentAdapters - Per-IDE / per-agent knowledge of where errors and controls live in the DOM
+ *
+ * The handler picks the adapters whose IDE and target patterns match a CDP target and hands them
+ * to the injected script, which looks inside their error panels first and falls back to the
+ * generic scan (button text + context keywords) for everything else.
+ * Adapters only narrow where to look: a control is still clicked only if a button rule matches its text.
+ */
+
+/**
+ * A DOM strategy for one agent UI
+ * Selectors are CSS; several are tried in order. Target patterns match the target title or URL:
+ * /regex/flags, glob with * and ?, or case-insensitive substring
+ */
+export interface AgentAdapter {
+  id: string;
+  name: string;
+  ides?: string[];  // Detected IDEs ("VS Code", "Cursor", "Antigravity"); any if omitted
+  targets: string[];  // CDP targets (title or URL) that host this agent
+  errorContainers: string[];  // Error panels; Retry controls are searched inside them
+  retryControls?: string;  // Retry candidates inside an error panel (default: buttons)
+  errorMessage?: string;  // Error message inside an error panel (default: panel text without its buttons)
+  acceptControls?: string;  // Accept candidates, tried before the generic Accept All scan
+  enabled?: boolean;
+}
+
+export const BUILTIN_ADAPTERS: AgentAdapter[] = [
+  {
+    id: 'cursor-composer',
+    name: 'Cursor Composer',
+    ides: ['Cursor'],
+    targets: ['workbench.html'],
+    errorContainers: ['.composer-error-panel', '[class*="composer"] [class*="error"]'],
+    retryControls: '.anysphere-button, .anysphere-secondary-button, button',
+    errorMessage: '.error-title, .error-body',
+    acceptControls: '.composer-bar-actions [role="button"], .composer-review-bar .anysphere-text-button'
+  },
+  {
+    id: 'antigravity-agent',
+    name: 'Antigravity agent panel',
+    ides: ['Antigravity'],
+    targets: ['workbench.html', '/jetski|agent/i'],
+    errorContainers: ['.agent-error', '.terminal-error'],
+    acceptControls: '.review-bar button'
+  },
+  {
+    id: 'copilot-chat',
+    name: 'Copilot Chat',
+    ides: ['VS Code'],
+    targets: ['workbench.html'],
+    errorContainers: ['.interactive-item-container .chat-error-details', '.interactive-item-container [class*="error"]'],
+    retryControls: '.monaco-button, [role="button"]',
+    acceptControls: '.chat-editing-session-toolbar .monaco-button'
+  },
+  {
+    id: 'cline',
+    name: 'Cline / Roo Code',
+    targets: ['/saoudrizwan\\.claude-dev|rooveterinaryinc\\.roo-cline/i'],
+    errorContainers: ['[data-testid="virtuoso-item-list"] [class*="error" i]', '[data-testid="virtuoso-item-list"] [role="alert"]'],
+    retryControls: 'vscode-button, button'
+  },
+  {
+    id: 'continue',
+    name: 'Continue',
+    targets: ['/continue\\.continue/i'],
+    errorContainers: ['.thread-message [class*="error" i]', '.thread-message [role="alert"]'],
+    retryControls: 'button, [role="button"]'
+  }
+];
+
+/**
+ * Built-in adapters with user adapters applied: the same id overrides fields of (or disables) a built-in one,
+ * new ids are added
+ */
+export function mergeAdapters(custom: (Partial<AgentAdapter> & { id: string })[]): AgentAdapter[] {
+  const adapters = new Map(BUILTIN_ADAPTERS.map(adapter => [adapter.id, adapter]));
+  for (const adapter of custom) {
+    if (!adapter || typeof adapter.id !== 'string') continue;
+    adapters.set(adapter.id, { name: adapter.id, targets: [], errorContainers: [], ...adapters.get(adapter.id), ...adapter });
+  }
+  return Array.from(adapters.values()).filter(adapter => adapter.enabled !== false);
+}
@@ -0,0 +1,116 @@
+/**
+ * AuditLog - Persistent history of click/block events
+ *
+ * Appends one JSON object per line to events.jsonl in the extension's global storage.
+ * Rotates to events.1.jsonl ... events.N.jsonl when the active file grows too large.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { CDPEvent } from './CDPHandler';
+
+const LOG_FILE_NAME = 'events';
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;  // 1 MB per file
+const DEFAULT_MAX_FILES = 5;
+
+export interface AuditLogOptions {
+  maxFileSize?: number;
+  maxFiles?: number;
+}
+
+export class AuditLog {
+  private readonly dir: string;
+  private readonly maxFileSize: number;
+  private readonly maxFiles: number;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(dir: string, options: AuditLogOptions = {}) {
+    this.dir = dir;
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+  }
+
+  /**
+   * Path of the active log file
+   */
+  getLogPath(): string {
+    return path.join(this.dir, `${LOG_FILE_NAME}.jsonl`);
+  }
+
+  /**
+   * Append events to the log (writes are serialized)
+   */
+  append(events: CDPEvent[]): Promise<void> {
+    if (events.length === 0) return this.writeQueue;
+
+    const lines = events.map(event => JSON.stringify({
+      time: new Date(event.timestamp).toISOString(),
+      ...event
+    })).join('\n') + '\n';
+
+    this.writeQueue = this.writeQueue
+      .then(() => this.write(lines))
+      .catch(e => console.error(`[AuditLog] Failed to write events: ${e.message}`));
+    return this.writeQueue;
+  }
+
+  /**
+   * Read events from all log files (oldest first), optionally only those after `since`
+   */
+  async read(since: number = 0): Promise<CDPEvent[]> {
+    await this.writeQueue;
+
+    const events: CDPEvent[] = [];
+    for (let i = this.maxFiles - 1; i >= 0; i--) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(this.getRotatedPath(i), 'utf8');
+      } catch (e) {
+        continue;  // File does not exist yet
+      }
+
+      for (const line of content.split('\n')) {
+        if (!line) continue;
+        try {
+          const event = JSON.parse(line) as CDPEvent;
+          if (event.timestamp >= since) events.push(event);
+        } catch (e) {
+          // Skip partial or corrupt lines
+        }
+      }
+    }
+    return events;
+  }
+
+  private async write(lines: string): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await this.rotateIfNeeded();
+    await fs.promises.appendFile(this.getLogPath(), lines, 'utf8');
+  }
+
+  /**
+   * Shift events.jsonl -> events.1.jsonl -> ... and drop the oldest file
+   */
+  private async rotateIfNeeded(): Promise<void> {
+    let size = 0;
+    try {
+      size = (await fs.promises.stat(this.getLogPath())).size;
+    } catch (e) {
+      return;
+    }
+    if (size < this.maxFileSize) return;
+
+    for (let i = this.maxFiles - 1; i > 0; i--) {
+      try {
+        await fs.promises.rename(this.getRotatedPath(i - 1), this.getRotatedPath(i));
+      } catch (e) {
+        // Nothing to shift at this index
+      }
+    }
+  }
+
+  private getRotatedPath(index: number): string {
+    return index === 0
+      ? this.getLogPath()
+      : path.join(this.dir, `${LOG_FILE_NAME}.${index}.jsonl`);
+  }
+}
@@ -4,9 +4,53 @@
  * Uses Chrome DevTools Protocol to auto-click Retry buttons
  * Requires IDE to be launched with: --remote-debugging-port=31905
  */
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { CDPHandler, CDPLogCallback, CDPStats } from './CDPHandler';
+import {
+  ButtonRule,
+  CandidateHighlight,
+  CDPConfig,
+  CDPEndpoint,
+  CDPEndpointStatus,
+  CDPEvent,
+  CDPHandler,
+  CDPLogCallback,
+  CDPStats,
+  CDPTarget,
+  DEFAULT_ACCEPT_ALL_GUARDS,
+  DEFAULT_APPROVED_COMMANDS,
+  DEFAULT_BANNED_COMMANDS,
+  DEFAULT_BUTTON_RULES,
+  DEFAULT_ERROR_CATEGORIES,
+  DEFAULT_TARGET_FILTER,
+  ErrorCategory
+} from './CDPHandler';
 import { Relauncher } from './Relauncher';
+import { AuditLog } from './AuditLog';
+import { Profile, ProfileManager, ProfileScope } from './ProfileManager';
+import { Scheduler, ScheduleState } from './Scheduler';
+import { ESCALATION_KINDS, EscalationKind, Escalator } from './Escalation';
+import { WebhookConfig, WebhookDispatcher } from './Webhooks';
+import { computeDashboard, DashboardData, DashboardRange, getRangeStart } from './Dashboard';
+import { AgentAdapter, mergeAdapters } from './AgentAdapters';
+import { ErrorSnapshot, ErrorSnapshotStore, ErrorSnapshotSummary } from './ErrorSnapshots';
+
+// Settings that change how pages are found (rescan, no re-injection)
+const CONNECTION_SETTINGS = ['cdpPort', 'cdpPortRange', 'endpoints', 'maxConnections', 'targetInclude', 'targetExclude', 'targetTypes', 'agentTargets', 'adapters'];
+
+// Settings pushed into __autoRetryConfig on every injected page
+const RUNTIME_SETTINGS = [
+  'pollInterval', 'cooldown', 'maxBackoff', 'maxRetryAttempts', 'acceptAll', 'autoContinue', 'maxConsecutiveContinues', 'dryRun', 'highlightClicks', 'captureSnapshots', 'captureScreenshots', 'rules', 'errorCategories',
+  'bannedCommands', 'allowedCommands', 'commandApproval', 'approvedCommands', 'acceptAllMaxFiles', 'acceptAllMaxLines', 'acceptAllProtectedPaths', 'acceptAllBannedContent'
+];
+
+// Settings that choose or define profiles (can change any runtime setting)
+const PROFILE_SELECTION_SETTINGS = ['profiles', 'activeProfile', 'ideProfiles'];
+
+// Settings that define when the scheduler turns auto-retry on
+const SCHEDULE_SETTINGS = ['scheduleWindows', 'idleMinutes'];
+
+export type NotificationLevel = 'all' | 'attention' | 'off';
 
 export type AutoRetryLogCallback = (message: string, type: 'info' | 'success' | 'error' | 'warning') => void;
 
@@ -14,24 +58,84 @@ export interface AutoRetryConfig {
   enabled: boolean;
   pollInterval: number;
   cooldown: number;
+  maxBackoff: number;
+  maxRetryAttempts: number;
 }
 
 export class AutoRetryService {
   private isRunning = false;
   private cdpHandler: CDPHandler;
   private relauncher: Relauncher;
+  private profiles: ProfileManager;
+  private scheduler: Scheduler;
+  private escalator: Escalator;
+  private webhooks: WebhookDispatcher;
+  private attention?: string;  // Sticky warning shown until the user acknowledges it
   private logCallback?: AutoRetryLogCallback;
   private statusUpdateCallback?: () => void;
   private pollTimer?: ReturnType<typeof setInterval>;
-  private statsTimer?: ReturnType<typeof setInterval>;
   private config: AutoRetryConfig;
+  private auditLog?: AuditLog;
+  private snapshots?: ErrorSnapshotStore;
   private cachedClicks: number = 0;
   private cachedAcceptAllClicks: number = 0;
+  private cachedContinueClicks: number = 0;
+  private cachedCommandApprovals: number = 0;
+  private cachedBlocked: number = 0;
+  private cachedCircuitOpen: number = 0;
+  private cachedWouldClick: number = 0;
+  private cachedCategories: Record<string, number> = {};
 
-  constructor() {
-    this.config = this.getConfig();
-    this.cdpHandler = new CDPHandler();
+  /**
+   * @param storagePath Directory for persistent data (audit log, error snapshots); history is not persisted if omitted
+   * @param workspaceState Holds the profile chosen for this workspace
+   */
+  constructor(storagePath?: string, workspaceState?: vscode.Memento) {
     this.relauncher = new Relauncher();
+    this.profiles = new ProfileManager(this.relauncher.getIdeName(), workspaceState);
+    this.config = this.getConfig();
+    this.cdpHandler = new CDPHandler(() => {
+      const vsConfig = vscode.workspace.getConfiguration('ideAutoRetry');
+      return {
+        cdpPort: vsConfig.get<number>('cdpPort', 31905),
+        cdpPortRange: vsConfig.get<number>('cdpPortRange', 3),
+        maxConnections: vsConfig.get<number>('maxConnections', 10),
+        endpoints: vsConfig.get<CDPEndpoint[]>('endpoints', []),
+        targets: {
+          include: vsConfig.get<string[]>('targetInclude', DEFAULT_TARGET_FILTER.include),
+          exclude: vsConfig.get<string[]>('targetExclude', DEFAULT_TARGET_FILTER.exclude),
+          types: vsConfig.get<string[]>('targetTypes', DEFAULT_TARGET_FILTER.types),
+          agent: vsConfig.get<string[]>('agentTargets', DEFAULT_TARGET_FILTER.agent)
+        },
+        adapters: mergeAdapters(vsConfig.get<(Partial<AgentAdapter> & { id: string })[]>('adapters', [])),
+        ide: this.relauncher.getIdeName()
+      };
+    });
+    if (storagePath) {
+      this.auditLog = new AuditLog(storagePath);
+      this.snapshots = new ErrorSnapshotStore(path.join(storagePath, 'snapshots'));
+    }
+    this.cdpHandler.setEventCallback(events => this.handleEvents(events));
+    this.cdpHandler.setActivityCallback(() => this.scheduler.recordActivity());
+    this.scheduler = new Scheduler(() => {
+      const vsConfig = vscode.workspace.getConfiguration('ideAutoRetry');
+      return {
+        windows: vsConfig.get<string[]>('scheduleWindows', []),
+        idleMinutes: vsConfig.get<number>('idleMinutes', 0)
+      };
+    }, (active, reason) => this.handleScheduleChange(active, reason));
+    this.escalator = new Escalator(() => {
+      const vsConfig = vscode.workspace.getConfiguration('ideAutoRetry');
+      return {
+        retryThreshold: this.profiles.get<number>('escalateAfterRetries', 3),
+        hook: vsConfig.get<string>('escalationHook', ''),
+        hookEvents: vsConfig.get<EscalationKind[]>('escalationHookEvents', ESCALATION_KINDS)
+      };
+    }, message => this.log(message, 'error'));
+    this.webhooks = new WebhookDispatcher(
+      () => vscode.workspace.getConfiguration('ideAutoRetry').get<WebhookConfig[]>('webhooks', []),
+      message => this.log(message, 'error')
+    );
   }
 
   /**
@@ -41,8 +145,41 @@ export class AutoRetryService {
     const config = vscode.workspace.getConfiguration('ideAutoRetry');
     return {
       enabled: config.get<boolean>('enabled', true),
-      pollInterval: config.get<number>('pollInterval', 1000),
-      cooldown: config.get<number>('cooldown', 5000)
+      pollInterval: this.profiles.get<number>('pollInterval', 1000),
+      cooldown: this.profiles.get<number>('cooldown', 5000),
+      maxBackoff: this.profiles.get<number>('maxBackoff', 300000),
+      maxRetryAttempts: this.profiles.get<number>('maxRetryAttempts', 5)
+    };
+  }
+
+  /**
+   * Build the config pushed into injected pages (active profile applied)
+   */
+  private getCDPConfig(): CDPConfig {
+    return {
+      pollInterval: this.config.pollInterval,
+      bannedCommands: this.profiles.get<string[]>('bannedCommands', DEFAULT_BANNED_COMMANDS),
+      allowedCommands: this.profiles.get<string[]>('allowedCommands', []),
+      commandApproval: this.profiles.get('commandApproval', false),
+      approvedCommands: this.profiles.get<string[]>('approvedCommands', DEFAULT_APPROVED_COMMANDS),
+      acceptAllGuards: {
+        maxFiles: this.profiles.get<number>('acceptAllMaxFiles', DEFAULT_ACCEPT_ALL_GUARDS.maxFiles),
+        maxLines: this.profiles.get<number>('acceptAllMaxLines', DEFAULT_ACCEPT_ALL_GUARDS.maxLines),
+        protectedPaths: this.profiles.get<string[]>('acceptAllProtectedPaths', DEFAULT_ACCEPT_ALL_GUARDS.protectedPaths),
+        bannedContent: this.profiles.get<string[]>('acceptAllBannedContent', DEFAULT_ACCEPT_ALL_GUARDS.bannedContent)
+      },
+      acceptAll: this.profiles.get('acceptAll', false),
+      autoContinue: this.profiles.get('autoContinue', false),
+      maxConsecutiveContinues: this.profiles.get<number>('maxConsecutiveContinues', 10),
+      dryRun: this.profiles.get('dryRun', false),
+      highlightClicks: this.profiles.get('highlightClicks', false),
+      captureSnapshots: !!this.snapshots && this.profiles.get('captureSnapshots', true),
+      captureScreenshots: this.profiles.get('captureScreenshots', false),
+      cooldown: this.config.cooldown,
+      maxBackoff: this.config.maxBackoff,
+      maxRetryAttempts: this.config.maxRetryAttempts,
+      rules: this.profiles.get<ButtonRule[]>('rules', DEFAULT_BUTTON_RULES),
+      errorCategories: this.profiles.get<ErrorCategory[]>('errorCategories', DEFAULT_ERROR_CATEGORIES)
     };
   }
 
@@ -106,13 +243,7 @@ export class AutoRetryService {
     this.log('Starting Auto Retry...', 'info');
 
     this.config = this.getConfig();
-    const vsConfig = vscode.workspace.getConfiguration('ideAutoRetry');
-    const acceptAll = vsConfig.get('acceptAll', false);
-    const connected = await this.cdpHandler.start({
-      pollInterval: this.config.pollInterval,
-      bannedCommands: this.getDefaultBannedCommands(),
-      acceptAll
-    });
+    const connected = await this.cdpHandler.start(this.getCDPConfig());
 
     if (!connected) {
       this.log('Failed to connect to CDP', 'error');
@@ -120,40 +251,227 @@ export class AutoRetryService {
     }
 
     this.isRunning = true;
+    this.attention = undefined;
     this.log(`✅ Auto Retry started!`, 'success');
     this.log(`Connected to ${this.cdpHandler.getConnectionCount()} page(s)`, 'info');
 
-    // Start polling to maintain connection (OPTIMIZED: 10s instead of 5s)
-    // Connections are stable once established, no need to poll frequently
+    // Start polling to pick up new windows (OPTIMIZED: 10s instead of 5s)
+    // Dropped connections are reconnected by the handler's supervisor, no need to poll frequently
     this.pollTimer = setInterval(async () => {
       if (!this.isRunning) return;
 
-      const latestConfig = vscode.workspace.getConfiguration('ideAutoRetry');
-      const latestAcceptAll = latestConfig.get('acceptAll', false);
-      await this.cdpHandler.start({
-        pollInterval: this.config.pollInterval,
-        bannedCommands: this.getDefaultBannedCommands(),
-        acceptAll: latestAcceptAll
-      });
+      await this.cdpHandler.start(this.getCDPConfig());
     }, 10000);
 
-    // Start stats polling to update status bar (OPTIMIZED: 5s instead of 2s)
-    // Stats are not critical, reducing frequency saves CPU
-    this.statsTimer = setInterval(async () => {
-      if (!this.isRunning) return;
+    // Immediately update status bar
+    this.statusUpdateCallback?.();
+
+    return true;
+  }
+
+  /**
+   * Hot-apply changed settings without dropping connections
+   * @returns the settings that changed
+   */
+  public async applyConfigurationChange(e: vscode.ConfigurationChangeEvent): Promise<string[]> {
+    const changed = [...CONNECTION_SETTINGS, ...RUNTIME_SETTINGS, ...PROFILE_SELECTION_SETTINGS, ...SCHEDULE_SETTINGS]
+      .filter(key => e.affectsConfiguration(`ideAutoRetry.${key}`));
+    if (changed.length === 0) return changed;
+
+    this.config = this.getConfig();
 
-      const stats = await this.cdpHandler.getStats();
-      if (stats.clicks !== this.cachedClicks || stats.acceptAllClicks !== this.cachedAcceptAllClicks) {
-        this.cachedClicks = stats.clicks;
-        this.cachedAcceptAllClicks = stats.acceptAllClicks;
-        this.statusUpdateCallback?.();
+    if (changed.some(key => CONNECTION_SETTINGS.includes(key))) {
+      this.relauncher.reloadSettings();
+      const rescan = await this.cdpHandler.reloadSettings();
+      if (rescan && this.isRunning) {
+        await this.cdpHandler.start(this.getCDPConfig());
       }
-    }, 5000);
+    }
 
-    // Immediately update status bar
+    const profileChanged = changed.some(key => PROFILE_SELECTION_SETTINGS.includes(key));
+    if (this.isRunning && (profileChanged || changed.some(key => RUNTIME_SETTINGS.includes(key)))) {
+      await this.cdpHandler.updateConfig(this.getCDPConfig());
+    }
+    if (profileChanged) {
+      this.log(`Profile: ${this.getActiveProfile()?.name ?? 'none'}`, 'info');
+    }
+
+    if (changed.some(key => SCHEDULE_SETTINGS.includes(key))) {
+      this.scheduler.reload();
+    }
+
+    this.log(`Settings applied: ${changed.join(', ')}`, 'info');
     this.statusUpdateCallback?.();
+    return changed;
+  }
 
-    return true;
+  /**
+   * Handle a batch of events reported by injected pages
+   */
+  private handleEvents(events: CDPEvent[]): void {
+    // Snapshots go to their own store instead of every audit line and webhook payload
+    for (const event of events) {
+      if (event.snapshot) this.snapshots?.add(event);
+    }
+    events = events.map(({ snapshot, ...event }) => event);
+
+    const auditEnabled = vscode.workspace.getConfiguration('ideAutoRetry').get('auditLog', true);
+    if (auditEnabled) {
+      this.auditLog?.append(events.filter(event => event.type !== 'health'));
+    }
+    this.webhooks.enqueue(events);
+
+    for (const event of events) {
+      this.handleEvent(event);
+      this.escalate(event);
+    }
+    this.statusUpdateCallback?.();
+  }
+
+  /**
+   * Handle an event reported by an injected page
+   */
+  private handleEvent(event: CDPEvent): void {
+    switch (event.type) {
+      case 'clicked':
+        if (event.action === 'acceptAll') {
+          this.cachedAcceptAllClicks++;
+        } else if (event.action === 'continue') {
+          this.cachedContinueClicks++;
+          this.log(`▶️ Continued on ${event.pageId} (${event.attempts} in a row)`, 'info');
+        } else if (event.action === 'command') {
+          this.cachedCommandApprovals++;
+          this.log(`✅ Approved command on ${event.pageId} (matched ${event.pattern}): ${event.command}`, 'success');
+        } else {
+          this.cachedClicks++;
+          const category = event.category || 'unknown';
+          this.cachedCategories[category] = (this.cachedCategories[category] || 0) + 1;
+          this.log(`🔄 Retried [${category}] on ${event.pageId}${event.adapter ? ` via ${event.adapter}` : ''} (attempt ${event.attempts})`, 'info');
+        }
+        break;
+      case 'would-click': {
+        this.cachedWouldClick++;
+        const context = event.errorText ? `: ${event.errorText.slice(0, 120)}` : '';
+        this.log(`👀 Dry run: would click "${event.buttonText}" (${event.element}) via rule "${event.rule}" on ${event.pageId}${context}`, 'info');
+        break;
+      }
+      case 'error-detected':
+        this.log(`Error detected [${event.category || 'unknown'}] on ${event.pageId}: ${(event.errorText || '').slice(0, 120)}`, 'info');
+        break;
+      case 'blocked':
+        this.cachedBlocked++;
+        if (event.reason === 'non-retryable') {
+          const errorText = (event.errorText || '').slice(0, 120);
+          this.log(`⛔ Not retrying [${event.category}] error on ${event.pageId}: ${errorText}`, 'warning');
+          if (this.shouldNotify('attention')) {
+            vscode.window.showWarningMessage(
+              `IDE Auto Retry: ${event.category} error will not be retried. The error needs your attention: "${errorText}"`
+            );
+          }
+        } else if (event.reason === 'accept-guard') {
+          this.handleAcceptGuard(event);
+        } else if (event.reason === 'not-approved') {
+          this.log(`✋ Command on ${event.pageId} is not on the approval list, waiting for you: ${event.command}`, 'warning');
+          if (this.shouldNotify('attention')) {
+            vscode.window.showWarningMessage(
+              `IDE Auto Retry did not approve "${(event.command || '').slice(0, 120)}": it is not on the approval list. The agent is waiting for you.`,
+              'Open Panel'
+            ).then(choice => {
+              if (choice === 'Open Panel') vscode.commands.executeCommand('ideAutoRetry.openPanel');
+            });
+          }
+        } else if (event.reason === 'continue-limit') {
+          this.log(`⛔ Not continuing on ${event.pageId} after ${event.attempts} continues in a row, the agent is waiting for you`, 'warning');
+          if (this.shouldNotify('attention')) {
+            vscode.window.showWarningMessage(
+              `IDE Auto Retry clicked "${event.buttonText}" ${event.attempts} times in a row and stopped. The agent is waiting for you.`,
+              'Open Panel'
+            ).then(choice => {
+              if (choice === 'Open Panel') vscode.commands.executeCommand('ideAutoRetry.openPanel');
+            });
+          }
+        } else {
+          const pattern = event.pattern ? `, matched ${event.pattern}` : '';
+          const command = event.command ? `: ${event.command.slice(0, 120)}` : '';
+          this.log(`⚠️ Blocked "${event.buttonText}" on ${event.pageId} (${event.reason}${pattern})${command}`, 'warning');
+        }
+        break;
+      case 'circuit-open': {
+        this.cachedCircuitOpen++;
+        const errorText = (event.errorText || '').slice(0, 120);
+        this.log(`⛔ Gave up after ${event.attempts} retries [${event.category || 'unknown'}] on ${event.pageId}: ${errorText}`, 'warning');
+        if (this.shouldNotify('attention')) {
+          vscode.window.showWarningMessage(
+            `IDE Auto Retry gave up after ${event.attempts} retries. The error needs your attention: "${errorText}"`,
+            'Open Panel',
+            'Dismiss'
+          ).then(choice => {
+            if (choice) this.acknowledgeAttention();
+            if (choice === 'Open Panel') vscode.commands.executeCommand('ideAutoRetry.openPanel');
+          });
+        }
+        break;
+      }
+      case 'notify': {
+        const target = event.errorText ? `: ${event.errorText.slice(0, 120)}` : '';
+        this.log(`🔔 Rule "${event.rule}" matched "${event.buttonText}" on ${event.pageId}${target}`, 'info');
+        if (this.shouldNotify('info')) {
+          vscode.window.showInformationMessage(`IDE Auto Retry: rule "${event.rule}" matched "${event.buttonText}"`);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Escalate events that need a human: notify on repeated retries, keep a sticky warning
+   * when the circuit opens, and run the escalation hook
+   */
+  private escalate(event: CDPEvent): void {
+    const escalation = this.escalator.handle(event);
+    if (escalation?.kind === 'repeated-retries') {
+      this.log(`📣 ${escalation.message}`, 'warning');
+      if (!this.shouldNotify('attention')) return;
+      const errorText = (escalation.errorText || '').slice(0, 120);
+      vscode.window.showWarningMessage(`IDE Auto Retry: ${escalation.message}: "${errorText}"`, 'Open Panel').then(choice => {
+        if (choice === 'Open Panel') vscode.commands.executeCommand('ideAutoRetry.openPanel');
+      });
+    } else if (escalation?.kind === 'circuit-open') {
+      this.attention = escalation.message;
+    }
+  }
+
+  /**
+   * Clear the sticky warning (the user has seen it)
+   */
+  public acknowledgeAttention(): void {
+    if (!this.attention) return;
+    this.attention = undefined;
+    this.statusUpdateCallback?.();
+  }
+
+  /**
+   * Tell the user why an Accept All was skipped and offer to review the changes
+   */
+  private handleAcceptGuard(event: CDPEvent): void {
+    const reasons: Record<string, string> = {
+      'max-files': `${event.fileCount} files changed (limit ${event.pattern})`,
+      'max-lines': `${event.lines} lines changed (limit ${event.pattern})`,
+      'protected-path': `a protected path is touched (${event.pattern})`,
+      'banned-content': `the changes match banned content (${event.pattern})`
+    };
+    const reason = reasons[event.guard || ''] || event.guard || 'guard';
+    this.log(`⚠️ Not accepting changes on ${event.pageId}: ${reason}`, 'warning');
+    if (!this.shouldNotify('attention')) return;
+
+    vscode.window.showWarningMessage(
+      `IDE Auto Retry did not click "${event.buttonText}": ${reason}. Please review the changes.`,
+      'Review'
+    ).then(choice => {
+      if (choice === 'Review') {
+        vscode.commands.executeCommand('workbench.view.scm');
+      }
+    });
   }
 
   /**
@@ -167,13 +485,6 @@ export class AutoRetryService {
       this.pollTimer = undefined;
     }
 
-    if (this.statsTimer) {
-      clearInterval(this.statsTimer);
-      this.statsTimer = undefined;
-    }
-
-    this.cachedClicks = 0;
-    this.cachedAcceptAllClicks = 0;
     await this.cdpHandler.stop();
     this.log('Auto Retry stopped', 'info');
 
@@ -181,6 +492,54 @@ export class AutoRetryService {
     this.statusUpdateCallback?.();
   }
 
+  /**
+   * Start evaluating the schedule (called once the UI callbacks are set)
+   */
+  public startScheduler(): void {
+    this.scheduler.reload();
+  }
+
+  /**
+   * Record user activity for the scheduler's idle detection
+   */
+  public recordActivity(): void {
+    this.scheduler.recordActivity();
+  }
+
+  /**
+   * Get the schedule and whether it currently wants auto-retry on
+   */
+  public getScheduleState(): ScheduleState {
+    return this.scheduler.getState();
+  }
+
+  /**
+   * Start or stop on a schedule transition; a manual start/stop holds until the next transition
+   */
+  private async handleScheduleChange(active: boolean, reason: string): Promise<void> {
+    if (active && !this.isRunning) {
+      this.log(`🕒 Schedule: starting (${reason})`, 'info');
+      const started = await this.start().catch(() => false);
+      if (!started) {
+        // The scheduler only calls back on a change; ask it to try again on its next tick
+        this.scheduler.retryTransition();
+      }
+    } else if (!active && this.isRunning) {
+      this.log(`🕒 Schedule: stopping (${reason})`, 'info');
+      await this.stop();
+    }
+    this.statusUpdateCallback?.();
+  }
+
+  /**
+   * Stop the service and the scheduler and deliver pending webhook events and escalation hooks (extension deactivation)
+   */
+  public async dispose(): Promise<void> {
+    this.scheduler.dispose();
+    await this.stop();
+    await Promise.all([this.webhooks.flush(), this.escalator.flush()]);
+  }
+
   /**
    * Setup CDP by modifying shortcuts
    */
@@ -192,45 +551,190 @@ export class AutoRetryService {
   /**
    * Get service status
    */
-  public getStatus(): { running: boolean; clicks: number; acceptAllClicks: number; connectionCount: number } {
+  public getStatus(): { running: boolean; reconnecting: boolean; attention?: string; clicks: number; acceptAllClicks: number; continueClicks: number; commandApprovals: number; wouldClick: number; connectionCount: number } {
     return {
       running: this.isRunning && this.cdpHandler.isRunning(),
+      reconnecting: this.isRunning && this.cdpHandler.isReconnecting(),
+      attention: this.attention,
       clicks: this.cachedClicks,
       acceptAllClicks: this.cachedAcceptAllClicks,
+      continueClicks: this.cachedContinueClicks,
+      commandApprovals: this.cachedCommandApprovals,
+      wouldClick: this.cachedWouldClick,
       connectionCount: this.cdpHandler.getConnectionCount()
     };
   }
 
   /**
-   * Get stats from CDP handler
+   * Whether a notification of this kind should be shown
+   * `attention`: errors and skipped actions that need the user, `info`: rule notifications
+   */
+  private shouldNotify(kind: 'attention' | 'info'): boolean {
+    const level = this.profiles.get<NotificationLevel>('notifications', 'all');
+    return level === 'all' || (level === 'attention' && kind === 'attention');
+  }
+
+  /**
+   * Read a setting with the active profile applied
+   */
+  public getSetting<T>(key: string, defaultValue: T): T {
+    return this.profiles.get(key, defaultValue);
+  }
+
+  /**
+   * Write a setting into the active profile if it overrides it, otherwise to the user settings
+   */
+  public async updateSetting(key: string, value: unknown): Promise<void> {
+    await this.profiles.update(key, value);
+  }
+
+  /**
+   * Get all profiles by name
+   */
+  public getProfiles(): Record<string, Profile> {
+    return this.profiles.getProfiles();
+  }
+
+  /**
+   * Get the active profile and the scope it was chosen in
+   */
+  public getActiveProfile(): { name: string; scope: ProfileScope } | undefined {
+    return this.profiles.getActiveProfile();
+  }
+
+  /**
+   * Activate a profile for this workspace, this IDE or everywhere
+   * The workspace choice is kept in workspace state and applied here; the others through onDidChangeConfiguration
+   */
+  public async setActiveProfile(name: string | undefined, scope: ProfileScope): Promise<void> {
+    await this.profiles.setActiveProfile(name, scope);
+    if (scope !== 'workspace') return;
+
+    this.config = this.getConfig();
+    if (this.isRunning) {
+      await this.cdpHandler.updateConfig(this.getCDPConfig());
+    }
+    this.log(`Profile: ${this.getActiveProfile()?.name ?? 'none'}`, 'info');
+    this.statusUpdateCallback?.();
+  }
+
+  /**
+   * Name of the detected IDE, used for per-IDE profiles
+   */
+  public getIdeName(): string {
+    return this.profiles.getIdeName();
+  }
+
+  /**
+   * Get the scan state of each configured CDP endpoint
+   */
+  public getEndpoints(): CDPEndpointStatus[] {
+    return this.cdpHandler.getEndpoints();
+  }
+
+  /**
+   * Get the CDP targets found on the last scan
+   */
+  public getTargets(): CDPTarget[] {
+    return this.cdpHandler.getTargets();
+  }
+
+  /**
+   * Switch a target on or off for this session
+   */
+  public async setTargetEnabled(id: string, enabled: boolean): Promise<void> {
+    await this.cdpHandler.setTargetEnabled(id, enabled);
+    this.log(`${enabled ? 'Enabled' : 'Disabled'} target ${id}`, 'info');
+  }
+
+  /**
+   * Outline the controls rules match on every connected page and log what would happen to each
+   */
+  public async highlightCandidates(durationMs: number): Promise<CandidateHighlight[]> {
+    const candidates = await this.cdpHandler.highlightCandidates(durationMs);
+    for (const candidate of candidates) {
+      this.log(`🔍 ${candidate.pageTitle || candidate.pageId}: "${candidate.buttonText}" (${candidate.element}) via ${candidate.type} rule "${candidate.rule}": ${candidate.status}`, 'info');
+    }
+    return candidates;
+  }
+
+  /**
+   * Get session stats (accumulated from page events)
    */
   public async getStats(): Promise<CDPStats> {
-    return await this.cdpHandler.getStats();
+    return {
+      clicks: this.cachedClicks,
+      blocked: this.cachedBlocked,
+      acceptAllClicks: this.cachedAcceptAllClicks,
+      circuitOpen: this.cachedCircuitOpen,
+      wouldClick: this.cachedWouldClick,
+      continueClicks: this.cachedContinueClicks,
+      commandApprovals: this.cachedCommandApprovals,
+      categories: { ...this.cachedCategories }
+    };
   }
 
   /**
-   * Reset stats
+   * Reset stats, returning the values before the reset
    */
   public async resetStats(): Promise<CDPStats> {
-    return await this.cdpHandler.resetStats();
-  }
-
-  /**
-   * Default list of dangerous commands to block
-   */
-  private getDefaultBannedCommands(): string[] {
-    return [
-      'rm -rf /',
-      'rm -rf ~',
-      'rm -rf *',
-      'format c:',
-      'del /f /s /q',
-      'rmdir /s /q',
-      ':(){:|:&};:',
-      'dd if=',
-      'mkfs.',
-      '> /dev/sda',
-      'chmod -R 777 /'
-    ];
+    const stats = await this.getStats();
+    await this.cdpHandler.resetStats();
+    this.cachedClicks = 0;
+    this.cachedBlocked = 0;
+    this.cachedAcceptAllClicks = 0;
+    this.cachedContinueClicks = 0;
+    this.cachedCommandApprovals = 0;
+    this.cachedCircuitOpen = 0;
+    this.cachedWouldClick = 0;
+    this.cachedCategories = {};
+    return stats;
+  }
+
+  /**
+   * Dashboard data for a range, aggregated from the audit log (undefined if storage is not available)
+   */
+  public async getDashboard(range: DashboardRange): Promise<DashboardData | undefined> {
+    if (!this.auditLog) return undefined;
+    const now = Date.now();
+    const events = await this.auditLog.read(getRangeStart(range, now));
+    return computeDashboard(events, range, now);
+  }
+
+  /**
+   * Captured error snapshots, newest first (empty if storage is not available)
+   */
+  public async getErrorSnapshots(): Promise<ErrorSnapshotSummary[]> {
+    return this.snapshots ? this.snapshots.list() : [];
+  }
+
+  /**
+   * A captured error snapshot with its screenshot
+   */
+  public async getErrorSnapshot(id: string): Promise<ErrorSnapshot | undefined> {
+    return this.snapshots?.get(id);
+  }
+
+  /**
+   * Write all captured error snapshots to a JSON file, returning how many were written
+   */
+  public async exportErrorSnapshots(file: string): Promise<number> {
+    if (!this.snapshots) throw new Error('storage is not available');
+    return this.snapshots.exportTo(file);
+  }
+
+  /**
+   * Delete all captured error snapshots
+   */
+  public async clearErrorSnapshots(): Promise<void> {
+    await this.snapshots?.clear();
+    this.log('Cleared recent errors', 'info');
+  }
+
+  /**
+   * Path of the persistent audit log, if storage is available
+   */
+  public getAuditLogPath(): string | undefined {
+    return this.auditLog?.getLogPath();
   }
 }
@@ -0,0 +1,184 @@
+/**
+ * CDPClient - Minimal Chrome DevTools Protocol client for a single target
+ *
+ * Owns one WebSocket and one message dispatcher: responses are matched to
+ * pending requests by id, everything else is emitted as an event named after
+ * the CDP method (e.g. client.on('Runtime.bindingCalled', params => ...)).
+ */
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+
+const DEFAULT_CONNECT_TIMEOUT = 5000;
+const DEFAULT_COMMAND_TIMEOUT = 5000;
+
+export interface RemoteObject {
+  type: string;
+  subtype?: string;
+  value?: any;
+  description?: string;
+}
+
+/**
+ * CDP commands used by the extension, with their params and results
+ */
+export interface CDPCommands {
+  'Runtime.enable': { params: Record<string, never>; result: Record<string, never> };
+  'Runtime.evaluate': {
+    params: { expression: string; userGesture?: boolean; awaitPromise?: boolean; returnByValue?: boolean };
+    result: { result: RemoteObject; exceptionDetails?: any };
+  };
+  'Runtime.addBinding': { params: { name: string }; result: Record<string, never> };
+  'Page.enable': { params: Record<string, never>; result: Record<string, never> };
+  'Page.captureScreenshot': {
+    params: { format?: 'jpeg' | 'png' | 'webp'; quality?: number; clip?: { x: number; y: number; width: number; height: number; scale: number } };
+    result: { data: string };
+  };
+}
+
+export type CDPMethod = keyof CDPCommands;
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+export class CDPClient extends EventEmitter {
+  private readonly ws: WebSocket;
+  private nextId: number = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+
+  private constructor(ws: WebSocket) {
+    super();
+    this.ws = ws;
+    this.ws.on('message', (data) => this.dispatch(data));
+    this.ws.on('close', () => {
+      this.rejectAll(new Error('CDP connection closed'));
+      this.emit('close');
+    });
+    // Errors after open surface as 'close'; keep the emitter from throwing
+    this.ws.on('error', () => {});
+  }
+
+  /**
+   * Open a WebSocket to a target's webSocketDebuggerUrl
+   * @param headers Extra handshake headers (auth for remote endpoints)
+   */
+  static connect(url: string, timeoutMs: number = DEFAULT_CONNECT_TIMEOUT, headers?: Record<string, string>): Promise<CDPClient> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url, { headers });
+      let settled = false;
+
+      const timeout = setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        try { ws.terminate(); } catch (e) {}
+        reject(new Error('Connection timeout'));
+      }, timeoutMs);
+
+      ws.once('open', () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        resolve(new CDPClient(ws));
+      });
+
+      ws.once('error', (err) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        reject(err);
+      });
+    });
+  }
+
+  /**
+   * Whether the socket is open and can send commands
+   */
+  get isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Send a command and resolve with its result
+   * Rejects on protocol error, timeout or connection close
+   */
+  send<M extends CDPMethod>(
+    method: M,
+    params?: CDPCommands[M]['params'],
+    timeoutMs: number = DEFAULT_COMMAND_TIMEOUT
+  ): Promise<CDPCommands[M]['result']> {
+    if (!this.isOpen) {
+      return Promise.reject(new Error('CDP connection is not open'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`CDP Timeout: ${method}`));
+      }, timeoutMs);
+
+      this.pending.set(id, { method, resolve, reject, timeout });
+      this.ws.send(JSON.stringify({ id, method, params: params ?? {} }));
+    });
+  }
+
+  /**
+   * Send a command without waiting for the response (used during shutdown)
+   */
+  sendAndForget<M extends CDPMethod>(method: M, params?: CDPCommands[M]['params']): void {
+    if (!this.isOpen) return;
+    try {
+      this.ws.send(JSON.stringify({ id: this.nextId++, method, params: params ?? {} }));
+    } catch (e) {
+      // Ignore send errors during shutdown
+    }
+  }
+
+  /**
+   * Close the socket; pending requests are rejected
+   */
+  close(): void {
+    this.rejectAll(new Error('CDP connection closed'));
+    try { this.ws.close(); } catch (e) {}
+  }
+
+  /**
+   * Route one incoming frame: responses to their pending request, events to listeners
+   */
+  private dispatch(data: WebSocket.RawData): void {
+    let msg: any;
+    try {
+      msg = JSON.parse(data.toString());
+    } catch (e) {
+      return;  // Ignore malformed frames
+    }
+
+    if (typeof msg.id === 'number') {
+      const request = this.pending.get(msg.id);
+      if (!request) return;
+      this.pending.delete(msg.id);
+      clearTimeout(request.timeout);
+      if (msg.error) {
+        request.reject(new Error(`${request.method}: ${msg.error.message}`));
+      } else {
+        request.resolve(msg.result);
+      }
+      return;
+    }
+
+    if (typeof msg.method === 'string') {
+      this.emit(msg.method, msg.params ?? {});
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const [, request] of this.pending) {
+      clearTimeout(request.timeout);
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
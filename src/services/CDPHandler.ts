@@ -1,67 +1,633 @@
 /**
  * CDPHandler - Chrome DevTools Protocol handler for auto-retry
  * 
- * Uses WebSocket to connect to CDP endpoint and inject auto-click script
- * Port: 31905 (± 3 range for flexibility)
+ * Uses CDPClient (one WebSocket per page) to connect to CDP endpoints and inject auto-click script
+ * Port: 31905 (± 3 range for flexibility) on 127.0.0.1, or a list of (remote) endpoints
+ *
+ * Has no dependency on the VS Code API: settings come from a CDPSettingsProvider,
+ * so the same handler runs in the extension host and in the headless CLI.
  */
-import * as vscode from 'vscode';
 import * as http from 'http';
+import * as https from 'https';
+import { CDPClient } from './CDPClient';
+import { AgentAdapter, BUILTIN_ADAPTERS } from './AgentAdapters';
 
-// Dynamic import for ws module
-let WebSocket: any;
+// Name of the CDP binding the injected script calls to push events
+const EVENT_BINDING = '__autoRetryEmit';
+
+// Expression that stops the injected script and cleans up its observers
+const STOP_EXPRESSION = 'if(window.__autoRetryStop) window.__autoRetryStop()';
+
+// Reconnect supervisor: jittered exponential backoff while an endpoint is away
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+
+// Navigation fires several events; wait for them to settle before re-injecting
+const REINJECT_DELAY = 250;
+
+/**
+ * User-configurable rule for which buttons get clicked
+ * `match` is exact text, or a regex written as /pattern/flags
+ */
+export interface ButtonRule {
+  name?: string;
+  type: 'retry' | 'acceptAll' | 'continue' | 'command';
+  match: string;
+  selector?: string;
+  contextKeywords?: string[];
+  action: 'click' | 'skip' | 'notify';
+  enabled: boolean;
+}
+
+export const DEFAULT_BUTTON_RULES: ButtonRule[] = [
+  {
+    name: 'Retry on error',
+    type: 'retry',
+    match: 'Retry',
+    contextKeywords: ['error', 'failed', 'terminated', 'dismiss', 'alert'],
+    action: 'click',
+    enabled: true
+  },
+  {
+    name: 'Accept All',
+    type: 'acceptAll',
+    match: '/^accept all$/i',
+    action: 'click',
+    enabled: true
+  },
+  {
+    name: 'Continue',
+    type: 'continue',
+    match: '/^(continue|resume( task)?|run \\d+ more iterations?)$/i',
+    contextKeywords: ['limit', 'iteration', 'iterate', 'tool call', 'paused', 'a while'],
+    action: 'click',
+    enabled: true
+  },
+  {
+    name: 'Approve command',
+    type: 'command',
+    match: '/^(run|run command|allow|approve)$/i',
+    action: 'click',
+    enabled: true
+  }
+];
+
+/**
+ * Error category with the retry policy applied to errors that match it
+ * Patterns are case-insensitive substrings, or regexes written as /pattern/flags
+ */
+export interface ErrorCategory {
+  category: string;
+  patterns: string[];
+  policy: 'backoff' | 'once' | 'never';
+}
+
+// Evaluated in order; "unknown" (no patterns) supplies the fallback policy
+export const DEFAULT_ERROR_CATEGORIES: ErrorCategory[] = [
+  {
+    category: 'auth',
+    patterns: ['/unauthori[sz]ed/i', '/\\b(401|403)\\b/', 'invalid api key', 'authentication', 'sign in again', 'log in again'],
+    policy: 'never'
+  },
+  {
+    category: 'quota',
+    patterns: ['quota', 'billing', '/insufficient (credits|balance)/i', 'usage limit', 'exceeded your'],
+    policy: 'never'
+  },
+  {
+    category: 'context-length',
+    patterns: ['/context (length|window)/i', 'maximum context', 'token limit', 'prompt is too long'],
+    policy: 'once'
+  },
+  {
+    category: 'rate-limit',
+    patterns: ['/rate.?limit/i', '/\\b429\\b/', 'too many requests'],
+    policy: 'backoff'
+  },
+  {
+    category: 'overloaded',
+    patterns: ['overloaded', '/\\b(503|529)\\b/', 'capacity', '/server (is )?busy/i', 'unavailable'],
+    policy: 'backoff'
+  },
+  {
+    category: 'network',
+    patterns: ['network', '/ECONNRESET|ETIMEDOUT|ENOTFOUND|ECONNREFUSED/', '/timed? ?out/i', '/connection (lost|closed|reset)/i', 'fetch failed'],
+    policy: 'backoff'
+  },
+  {
+    category: 'unknown',
+    patterns: [],
+    policy: 'backoff'
+  }
+];
+
+/**
+ * Command patterns that block clicks next to them
+ * Each entry is a case-insensitive substring, a glob (* and ?) or a regex written as /pattern/flags
+ */
+export const DEFAULT_BANNED_COMMANDS: string[] = [
+  'rm -rf /',
+  'rm -rf ~',
+  '/rm\\s+-rf\\s+\\*/',
+  'format c:',
+  'del /f /s /q',
+  'rmdir /s /q',
+  ':(){:|:&};:',
+  'dd if=',
+  'mkfs.',
+  '> /dev/sda',
+  'chmod -R 777 /',
+  '/git\\s+push\\s+(.*\\s)?(--force|-f)\\b/i',
+  'git reset --hard',
+  '/git\\s+clean\\s+-[a-z]*f/i',
+  '/\\b(drop|truncate)\\s+(table|database|schema)\\b/i',
+  'kubectl delete',
+  'terraform destroy',
+  'docker system prune'
+];
+
+/**
+ * Commands approved at "Run command?" prompts when command approval is on
+ * Text and globs match the whole command (case-insensitive), regexes as written; the blocklist always wins
+ */
+export const DEFAULT_APPROVED_COMMANDS: string[] = [
+  'git status',
+  'git diff*',
+  'npm test',
+  'pytest *'
+];
+
+/**
+ * Checks on the diff summary next to an "Accept All" control; any hit skips the click
+ * maxFiles / maxLines of 0 disable that limit
+ */
+export interface AcceptAllGuards {
+  maxFiles: number;
+  maxLines: number;
+  protectedPaths: string[];  // Path globs, e.g. ".env", "migrations/**"
+  bannedContent: string[];  // Substring, glob or /regex/flags matched against the panel text
+}
+
+export type AcceptAllGuardType = 'max-files' | 'max-lines' | 'protected-path' | 'banned-content';
+
+export const DEFAULT_ACCEPT_ALL_GUARDS: AcceptAllGuards = {
+  maxFiles: 20,
+  maxLines: 1000,
+  protectedPaths: ['.env', '.env.*', 'migrations/**', '.github/workflows/**', '*.pem', 'id_rsa*'],
+  bannedContent: ['/-----BEGIN [A-Z ]*PRIVATE KEY-----/', '/AKIA[0-9A-Z]{16}/']
+};
 
 export interface CDPConfig {
   pollInterval?: number;
   bannedCommands?: string[];
+  allowedCommands?: string[];  // Patterns that override bannedCommands
+  acceptAllGuards?: AcceptAllGuards;
   acceptAll?: boolean;
+  autoContinue?: boolean;  // Click "Continue" when an agent pauses at a tool-call or iteration limit
+  maxConsecutiveContinues?: number;  // Continue clicks in a row before waiting for user input
+  commandApproval?: boolean;  // Approve terminal command prompts whose command is on approvedCommands
+  approvedCommands?: string[];
+  rules?: ButtonRule[];
+  cooldown?: number;
+  maxBackoff?: number;
+  maxRetryAttempts?: number;
+  errorCategories?: ErrorCategory[];
+  dryRun?: boolean;  // Detect and report candidates without clicking
+  highlightClicks?: boolean;  // Flash an outline and a toast next to clicked (or would-click) elements
+  captureSnapshots?: boolean;  // Attach a sanitized copy of the error panel to retry events
+  captureScreenshots?: boolean;  // Also screenshot the panel (the click waits for it briefly)
+  adapters?: AgentAdapter[];  // Set per page by the handler
 }
 
 export interface CDPStats {
   clicks: number;
   blocked: number;
   acceptAllClicks: number;
+  circuitOpen: number;
+  categories?: Record<string, number>;  // Retry clicks per error category
+  wouldClick?: number;  // Candidates reported in dry-run mode
+  continueClicks?: number;
+  commandApprovals?: number;
+}
+
+export type CDPEventType = 'clicked' | 'would-click' | 'blocked' | 'error-detected' | 'circuit-open' | 'notify' | 'disconnected' | 'health';
+
+/**
+ * Event reported by the injected script (pushed via CDP binding)
+ * `disconnected` is reported by the handler itself when a page socket closes
+ */
+export interface CDPEvent {
+  type: CDPEventType;
+  pageId: string;
+  pageTitle?: string;
+  timestamp: number;
+  action?: 'retry' | 'acceptAll' | 'continue' | 'command';
+  reason?: string;
+  buttonText?: string;
+  errorText?: string;
+  attempts?: number;
+  rule?: string;
+  category?: string;
+  element?: string;  // Short descriptor of the candidate element (dry-run)
+  pattern?: string;  // Pattern (or limit) that blocked the click
+  guard?: AcceptAllGuardType;  // Accept All guard that tripped
+  files?: string[];  // Changed files listed next to the Accept All control
+  fileCount?: number;
+  lines?: number;  // Changed lines (+/-) listed next to the Accept All control
+  health?: { observerCount: number; pollTimerActive: boolean; retryTrackers: number };
+  adapter?: string;  // Agent adapter that located the clicked control
+  command?: string;  // Proposed command of a command approval prompt
+  snapshot?: ErrorSnapshotCapture;  // Error panel of a retry, with captureSnapshots
+}
+
+/**
+ * Error panel captured by the injected script before a retry click
+ * The markup keeps structure only (no scripts, media, form fields or non-structural attributes);
+ * `rect` is in top-level viewport pixels and `screenshot` is added by the handler
+ */
+export interface ErrorSnapshotCapture {
+  text: string;
+  html: string;
+  rect?: { x: number; y: number; width: number; height: number };
+  captureId?: number;  // Matches the screenshot request sent before the click
+  screenshot?: string;  // Base64 JPEG clip of `rect`
+}
+
+/**
+ * Sent by the injected script ahead of a held-back Retry click (captureScreenshots)
+ * Handled by the handler, never passed on as an event
+ */
+interface ScreenshotRequest {
+  type: 'capture';
+  captureId: number;
+  rect?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Sent by the injected script on real keyboard or pointer input (at most every ACTIVITY_REPORT_INTERVAL)
+ * Handled by the handler, never passed on as an event
+ */
+interface ActivityReport {
+  type: 'activity';
+}
+
+// Screenshots kept per page until the click event that carries them arrives
+const MAX_PENDING_SCREENSHOTS = 5;
+
+/**
+ * A control a rule matches on a page, as outlined by highlightCandidates
+ * `status` is what the scan would do with it: match (click), off (feature disabled), no context,
+ * no command, hidden, skip or notify
+ */
+export interface CandidateHighlight {
+  pageId: string;
+  pageTitle?: string;
+  type: ButtonRule['type'];
+  rule: string;
+  buttonText: string;
+  element: string;
+  status: string;
 }
 
 interface CDPConnection {
-  ws: any;
+  client: CDPClient;
   injected: boolean;
+  bindingReady: boolean;  // Events are pushed via Runtime.bindingCalled
   connectedAt: number;  // Timestamp for LRU eviction
+  title: string;
+  endpoint: string;  // host:port it was discovered on
+  agent: boolean;  // Agent targets are evicted after generic ones
+  adapters: AgentAdapter[];  // Picked for this target
+  screenshots: Map<number, Promise<string | undefined>>;  // By capture id, until the click event arrives
+  reinjectTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Which CDP targets get the script
+ * Patterns match the target title or URL: /regex/flags, glob with * and ?, or case-insensitive substring
+ */
+export interface TargetFilter {
+  include: string[];  // Empty: every target
+  exclude: string[];
+  types: string[];  // CDP target types (page, webview, iframe...)
+  agent: string[];  // Agent targets get connections first and are kept over generic ones on eviction
 }
 
+export const DEFAULT_TARGET_FILTER: TargetFilter = {
+  include: [],
+  exclude: [],
+  types: ['page', 'webview'],
+  agent: ['workbench.html', '/agent|chat|copilot|composer|cascade/i']
+};
+
+/**
+ * A target listed by a CDP endpoint
+ * `filtered`: excluded by the target filter, `disabled`: switched off in the panel,
+ * `available`: eligible but not connected (maxConnections reached)
+ */
+export interface CDPTarget {
+  id: string;  // host:port:targetId, same as CDPEvent.pageId
+  endpoint: string;  // host:port
+  title: string;
+  url: string;
+  type: string;
+  agent: boolean;
+  adapters: string[];  // Ids of the agent adapters picked for this target
+  status: 'connected' | 'available' | 'filtered' | 'disabled';
+}
+
+interface TargetMatchers {
+  include: ((text: string) => boolean)[];
+  exclude: ((text: string) => boolean)[];
+  types: string[];
+  agent: ((text: string) => boolean)[];
+}
+
+/**
+ * Compile a target pattern (same formats as the command blocklist)
+ */
+function compileTargetPattern(pattern: string): (text: string) => boolean {
+  const regex = pattern.match(/^\/(.*)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      const re = new RegExp(regex[1], regex[2]);
+      return text => re.test(text);
+    } catch (e) {
+      return () => false;
+    }
+  }
+  if (/[*?]/.test(pattern)) {
+    const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    const re = new RegExp(source, 'i');
+    return text => re.test(text);
+  }
+  const needle = pattern.toLowerCase();
+  return text => text.toLowerCase().includes(needle);
+}
+
+function compileTargetFilter(filter: TargetFilter): TargetMatchers {
+  const compile = (patterns: string[]) => patterns.filter(p => p.length > 0).map(compileTargetPattern);
+  return {
+    include: compile(filter.include),
+    exclude: compile(filter.exclude),
+    types: filter.types,
+    agent: compile(filter.agent)
+  };
+}
+
+interface ReconnectState {
+  attempts: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * A CDP endpoint to scan: an IDE in a dev container, in WSL or behind an SSH port forward
+ */
+export interface CDPEndpoint {
+  host: string;
+  port: number;
+  range?: number;  // Scan port ± range (default 0)
+  secure?: boolean;  // https:// discovery and wss:// sockets
+  headers?: Record<string, string>;  // Sent with discovery requests and the WebSocket handshake
+  token?: string;  // Shorthand for an "Authorization: Bearer <token>" header
+}
+
+/**
+ * Scan state of a configured endpoint
+ * `reachable`: answers but no page is connected, `unknown`: not scanned yet
+ */
+export interface CDPEndpointStatus {
+  label: string;  // host:port, or host:from-to for a range
+  status: 'connected' | 'reachable' | 'reconnecting' | 'unreachable' | 'unknown';
+  connections: number;
+  error?: string;  // Last discovery error
+}
+
+// One host:port to scan, expanded from a CDPEndpoint
+interface ScanAddress {
+  address: string;  // host:port
+  host: string;
+  port: number;
+  secure: boolean;
+  headers: Record<string, string>;
+  endpoint: number;  // Index in the endpoint list
+}
+
+/**
+ * Connection settings read by the handler
+ */
+export interface CDPSettings {
+  cdpPort: number;
+  cdpPortRange: number;
+  maxConnections: number;
+  endpoints?: CDPEndpoint[];  // Replaces 127.0.0.1:cdpPort ± cdpPortRange when not empty
+  targets?: TargetFilter;  // Defaults to DEFAULT_TARGET_FILTER
+  adapters?: AgentAdapter[];  // Defaults to BUILTIN_ADAPTERS
+  ide?: string;  // Detected IDE, for adapters limited to some IDEs; any IDE matches if omitted
+}
+
+export type CDPSettingsProvider = () => CDPSettings;
+
+export const DEFAULT_CDP_SETTINGS: CDPSettings = {
+  cdpPort: 31905,
+  cdpPortRange: 3,
+  maxConnections: 10,
+  targets: DEFAULT_TARGET_FILTER
+};
+
 export type CDPLogCallback = (message: string, type: 'info' | 'success' | 'error' | 'warning') => void;
+export type CDPEventCallback = (events: CDPEvent[]) => void;
 
 export class CDPHandler {
   private connections: Map<string, CDPConnection> = new Map();
   private isEnabled: boolean = false;
-  private msgId: number = 1;
   private logCallback?: CDPLogCallback;
   private statusUpdateCallback?: () => void;
-  private basePort: number;
-  private portRange: number;
+  private eventCallback?: CDPEventCallback;
+  private activityCallback?: () => void;
+  private endpoints: CDPEndpoint[] = [];
+  private addresses: Map<string, ScanAddress> = new Map();  // In scan order
+  private addressErrors: Map<string, string | null> = new Map();  // Last discovery result (null: reachable)
   private maxConnections: number = 10;  // Default, will be updated on start()
-  private pendingMessages: Map<number, { timeout: NodeJS.Timeout; cleanup: () => void }> = new Map();
-  private lastAcceptAll: boolean = false;  // Track to avoid redundant config updates
-
-  constructor() {
-    const config = vscode.workspace.getConfiguration('ideAutoRetry');
-    this.basePort = config.get('cdpPort', 31905);
-    this.portRange = config.get('cdpPortRange', 3);
+  private lastRuntimeConfig: string = '';  // Track to avoid redundant config updates
+  private currentConfig?: CDPConfig;  // Config used for re-injection after navigation/reconnect
+  private reconnecting: Map<string, ReconnectState> = new Map();  // Per address
+  private scanLogged: boolean = false;  // Log the endpoints once per start, not every rescan
+  private lastConnectionCount: number = -1;
+  private targetFilter: string;  // Serialized, to detect changes
+  private targetMatchers: TargetMatchers;
+  private targets: Map<string, Omit<CDPTarget, 'status'> & { filtered: boolean }> = new Map();  // Last listing per address
+  private disabledTargets: Set<string> = new Set();  // Switched off in the panel (this session only)
+  private adapters: { adapter: AgentAdapter; targets: ((text: string) => boolean)[] }[] = [];
+  private adapterSettings: string = '';  // Serialized adapters and IDE, to detect changes
+  private readonly getSettings: CDPSettingsProvider;
+
+  constructor(getSettings: CDPSettingsProvider = () => DEFAULT_CDP_SETTINGS) {
+    this.getSettings = getSettings;
+    const settings = getSettings();
+    this.setEndpoints(settings);
+    const targets = settings.targets ?? DEFAULT_TARGET_FILTER;
+    this.targetFilter = JSON.stringify(targets);
+    this.targetMatchers = compileTargetFilter(targets);
+    this.setAdapters(settings);
     // Note: maxConnections is read dynamically in start() to support live updates
   }
 
   /**
-   * Initialize WebSocket module (lazy load)
+   * Re-read connection settings after a change
+   * Existing connections are kept; pages beyond a lowered maxConnections are evicted (LRU)
+   * @returns true if the endpoints, port range or target filter changed and a rescan is needed
    */
-  private async initWebSocket(): Promise<boolean> {
-    if (WebSocket) return true;
+  async reloadSettings(): Promise<boolean> {
+    const settings = this.getSettings();
+    const rangeChanged = this.setEndpoints(settings);
+    if (rangeChanged) this.scanLogged = false;
+    this.maxConnections = settings.maxConnections;
+
+    const targets = settings.targets ?? DEFAULT_TARGET_FILTER;
+    const filterChanged = JSON.stringify(targets) !== this.targetFilter;
+    this.targetFilter = JSON.stringify(targets);
+    this.targetMatchers = compileTargetFilter(targets);
+
+    // New adapters reach injected pages with the next runtime config push
+    const adaptersChanged = this.setAdapters(settings);
+    if (adaptersChanged) {
+      for (const [id, conn] of this.connections) {
+        const target = this.targets.get(id);
+        conn.adapters = this.selectAdapters(conn.title, target?.url ?? '');
+      }
+      this.lastRuntimeConfig = '';
+    }
 
-    try {
-      WebSocket = require('ws');
-      return true;
-    } catch (e) {
-      this.log('WebSocket module not found. Please install: npm install ws', 'error');
-      return false;
+    while (this.connections.size > this.maxConnections) {
+      await this.evictOldestConnection();
+    }
+    return rangeChanged || filterChanged || adaptersChanged;
+  }
+
+  /**
+   * Compile the adapters' target patterns
+   * @returns true if the adapters or the IDE changed
+   */
+  private setAdapters(settings: CDPSettings): boolean {
+    const adapters = settings.adapters ?? BUILTIN_ADAPTERS;
+    const serialized = JSON.stringify({ adapters, ide: settings.ide });
+    if (serialized === this.adapterSettings) return false;
+
+    this.adapterSettings = serialized;
+    this.adapters = adapters
+      .filter(adapter => !settings.ide || !adapter.ides || adapter.ides.includes(settings.ide))
+      .map(adapter => ({ adapter, targets: adapter.targets.filter(p => p.length > 0).map(compileTargetPattern) }));
+    return true;
+  }
+
+  /**
+   * Adapters for a target: those whose target patterns match its title or URL
+   */
+  private selectAdapters(title: string, url: string): AgentAdapter[] {
+    return this.adapters
+      .filter(({ targets }) => targets.some(test => test(title) || test(url)))
+      .map(({ adapter }) => adapter);
+  }
+
+  /**
+   * Expand the endpoint list (or the local port range) into the addresses to scan
+   * @returns true if the endpoints changed
+   */
+  private setEndpoints(settings: CDPSettings): boolean {
+    const endpoints: CDPEndpoint[] = settings.endpoints && settings.endpoints.length > 0
+      ? settings.endpoints
+      : [{ host: '127.0.0.1', port: settings.cdpPort, range: settings.cdpPortRange }];
+    if (JSON.stringify(endpoints) === JSON.stringify(this.endpoints)) return false;
+
+    this.endpoints = endpoints;
+    this.addresses.clear();
+    endpoints.forEach((endpoint, index) => {
+      const range = endpoint.range ?? 0;
+      const headers = { ...endpoint.headers };
+      if (endpoint.token) headers['Authorization'] = `Bearer ${endpoint.token}`;
+      for (let port = endpoint.port - range; port <= endpoint.port + range; port++) {
+        const address = `${endpoint.host}:${port}`;
+        if (!this.addresses.has(address)) {
+          this.addresses.set(address, { address, host: endpoint.host, port, secure: !!endpoint.secure, headers, endpoint: index });
+        }
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Scan state per configured endpoint
+   */
+  getEndpoints(): CDPEndpointStatus[] {
+    return this.endpoints.map((endpoint, index) => {
+      const range = endpoint.range ?? 0;
+      const label = range > 0 ? `${endpoint.host}:${endpoint.port - range}-${endpoint.port + range}` : `${endpoint.host}:${endpoint.port}`;
+      const addresses = Array.from(this.addresses.values()).filter(a => a.endpoint === index).map(a => a.address);
+      const connections = Array.from(this.connections.values()).filter(conn => addresses.includes(conn.endpoint)).length;
+      const results = addresses.filter(a => this.addressErrors.has(a)).map(a => this.addressErrors.get(a));
+
+      let status: CDPEndpointStatus['status'] = 'unknown';
+      if (connections > 0) status = 'connected';
+      else if (addresses.some(a => (this.reconnecting.get(a)?.attempts ?? 0) > 0)) status = 'reconnecting';
+      else if (results.some(error => error === null)) status = 'reachable';
+      else if (results.length > 0) status = 'unreachable';
+
+      // For a range, report the error of the configured port (the others are usually just closed)
+      const error = status === 'unreachable' ? this.addressErrors.get(`${endpoint.host}:${endpoint.port}`) ?? results[0] : undefined;
+      return { label, status, connections, ...(error ? { error } : {}) };
+    });
+  }
+
+  /**
+   * Targets seen on the last scan of each address, agent targets first
+   */
+  getTargets(): CDPTarget[] {
+    return Array.from(this.targets.values())
+      .map(({ filtered, ...target }) => ({
+        ...target,
+        status: this.connections.has(target.id) ? 'connected'
+          : filtered ? 'filtered'
+          : this.disabledTargets.has(target.id) ? 'disabled'
+          : 'available'
+      } as CDPTarget))
+      .sort((a, b) => Number(b.agent) - Number(a.agent));
+  }
+
+  /**
+   * Switch a target on or off for this session
+   * Disabling stops the script and closes the connection; enabling connects on the spot when running
+   */
+  async setTargetEnabled(id: string, enabled: boolean): Promise<void> {
+    if (enabled) {
+      this.disabledTargets.delete(id);
+      const target = this.targets.get(id);
+      if (target && this.isEnabled) {
+        try {
+          await this.scanAddress(target.endpoint, this.currentConfig);
+        } catch (e) {
+          // Endpoint went away, the supervisor or the next scan will pick it up
+        }
+      }
+    } else {
+      this.disabledTargets.add(id);
+      if (this.connections.has(id)) {
+        await this.closeConnection(id);
+        this.log(`Disabled page ${id}`, 'info');
+      }
     }
+    this.statusUpdateCallback?.();
+  }
+
+  /**
+   * Whether a listed target passes the include/exclude filters
+   */
+  private matchesTargetFilter(title: string, url: string): boolean {
+    const { include, exclude } = this.targetMatchers;
+    const matches = (test: (text: string) => boolean) => test(title) || test(url);
+    if (include.length > 0 && !include.some(matches)) return false;
+    return !exclude.some(matches);
   }
 
   /**
@@ -78,6 +644,20 @@ export class CDPHandler {
     this.statusUpdateCallback = callback;
   }
 
+  /**
+   * Set callback for events reported by injected pages
+   */
+  setEventCallback(callback: CDPEventCallback): void {
+    this.eventCallback = callback;
+  }
+
+  /**
+   * Set callback for user input on injected pages (typing or clicking in an agent chat)
+   */
+  setActivityCallback(callback: () => void): void {
+    this.activityCallback = callback;
+  }
+
   /**
    * Log message to callback
    */
@@ -90,35 +670,35 @@ export class CDPHandler {
   }
 
   /**
-   * Check if any CDP port in the target range is active
+   * Check if any configured CDP endpoint is active
    */
   async isCDPAvailable(): Promise<boolean> {
-    for (let port = this.basePort - this.portRange; port <= this.basePort + this.portRange; port++) {
+    for (const scan of this.addresses.values()) {
       try {
-        const pages = await this.getPages(port);
+        const pages = await this.getPages(scan);
         if (pages.length > 0) {
-          this.log(`CDP available on port ${port}`, 'success');
+          this.log(`CDP available on ${scan.address}`, 'success');
           return true;
         }
       } catch (e) {
-        // Port not available, try next
+        // Endpoint not available, try next
       }
     }
     return false;
   }
 
   /**
-   * Get the port where CDP is active
+   * Get the port where CDP is active (first active endpoint)
    */
   async getActivePort(): Promise<number | null> {
-    for (let port = this.basePort - this.portRange; port <= this.basePort + this.portRange; port++) {
+    for (const scan of this.addresses.values()) {
       try {
-        const pages = await this.getPages(port);
+        const pages = await this.getPages(scan);
         if (pages.length > 0) {
-          return port;
+          return scan.port;
         }
       } catch (e) {
-        // Port not available
+        // Endpoint not available
       }
     }
     return null;
@@ -128,118 +708,240 @@ export class CDPHandler {
    * Start/maintain the CDP connection and injection loop
    */
   async start(config?: CDPConfig): Promise<boolean> {
-    if (!await this.initWebSocket()) {
-      return false;
-    }
-
     this.isEnabled = true;
+    this.currentConfig = config;
     
-    // Read maxConnections from config (supports live updates from panel)
-    const vsConfig = vscode.workspace.getConfiguration('ideAutoRetry');
-    this.maxConnections = vsConfig.get('maxConnections', 10);
+    // Read maxConnections from settings (supports live updates from panel)
+    this.maxConnections = this.getSettings().maxConnections;
     
-    this.log(`Scanning ports ${this.basePort - this.portRange} to ${this.basePort + this.portRange}...`, 'info');
+    if (!this.scanLogged) {
+      this.log(`Scanning ${this.getEndpoints().map(e => e.label).join(', ')}...`, 'info');
+      this.scanLogged = true;
+    }
 
     // Clean up dead connections first
     for (const [id, conn] of this.connections) {
-      if (conn.ws.readyState !== 1) { // 1 = OPEN
+      if (!conn.client.isOpen) {
         this.connections.delete(id);
       }
     }
 
-    let newConnections = 0;
-
-    for (let port = this.basePort - this.portRange; port <= this.basePort + this.portRange; port++) {
+    for (const address of this.addresses.keys()) {
       try {
-        const pages = await this.getPages(port);
-        for (const page of pages) {
-          const id = `${port}:${page.id}`;
-          
-          // If already connected, update runtime config if needed
-          if (this.connections.has(id)) {
-            const conn = this.connections.get(id);
-            if (conn && !conn.injected) {
-              await this.inject(id, config);
-            } else if (conn && conn.injected) {
-              // Update runtime config (e.g. acceptAll toggle) only if changed
-              const currentAcceptAll = !!config?.acceptAll;
-              if (currentAcceptAll !== this.lastAcceptAll) {
-                await this.inject(id, config);
-              }
-            }
-            continue;
-          }
-          
-          // Need to create new connection
-          // If at max, evict oldest connection first (LRU)
-          if (this.connections.size >= this.maxConnections) {
-            this.evictOldestConnection();
-          }
-          
-          const success = await this.connect(id, page.webSocketDebuggerUrl);
-          if (success) {
-            newConnections++;
-            await this.inject(id, config);
-          }
-        }
+        await this.scanAddress(address, config);
       } catch (e) {
-        // Port not available
+        // Endpoint not available
       }
     }
 
     const totalConnections = this.connections.size;
+    const countChanged = totalConnections !== this.lastConnectionCount;
+    this.lastConnectionCount = totalConnections;
 
     if (totalConnections > 0) {
-      this.log(`Connected to ${totalConnections} page(s)`, 'success');
-      // Update tracked acceptAll state after propagating to all connections
-      this.lastAcceptAll = !!config?.acceptAll;
+      if (countChanged) {
+        this.log(`Connected to ${totalConnections} page(s)`, 'success');
+      }
+      // Update tracked runtime config after propagating to all connections
+      this.lastRuntimeConfig = this.getRuntimeConfig(config);
       return true;
     } else {
-      this.log('No CDP connections. Is IDE launched with --remote-debugging-port=31905?', 'warning');
+      if (countChanged) {
+        this.log('No CDP connections. Is IDE launched with --remote-debugging-port=31905?', 'warning');
+      }
       return false;
     }
   }
 
+  /**
+   * Connect and inject into every page on one address, and refresh pages already injected
+   * Rejects if the endpoint is not reachable
+   */
+  private async scanAddress(address: string, config?: CDPConfig): Promise<void> {
+    const scan = this.addresses.get(address);
+    if (!scan) return;  // Removed from the settings
+
+    let pages: any[];
+    try {
+      pages = await this.getPages(scan);
+      this.addressErrors.set(address, null);
+    } catch (e: any) {
+      this.addressErrors.set(address, e.message || e.code || String(e));
+      throw e;
+    }
+
+    for (const [id, target] of this.targets) {
+      if (target.endpoint === address) this.targets.delete(id);
+    }
+    for (const page of pages) {
+      const title = page.title || '';
+      const url = page.url || '';
+      this.targets.set(`${address}:${page.id}`, {
+        id: `${address}:${page.id}`,
+        endpoint: address,
+        title,
+        url,
+        type: page.type,
+        agent: this.targetMatchers.agent.some(test => test(title) || test(url)),
+        adapters: this.selectAdapters(title, url).map(adapter => adapter.id),
+        filtered: !this.matchesTargetFilter(title, url)
+      });
+    }
+
+    // Agent targets first, so they get connections before generic ones
+    const targets = Array.from(this.targets.values())
+      .filter(target => target.endpoint === address)
+      .sort((a, b) => Number(b.agent) - Number(a.agent));
+
+    for (const target of targets) {
+      const id = target.id;
+
+      if (target.filtered || this.disabledTargets.has(id)) {
+        if (this.connections.has(id)) {
+          await this.closeConnection(id);
+          this.log(`Disconnected from page ${id} (${target.filtered ? 'filtered out' : 'disabled'})`, 'info');
+        }
+        continue;
+      }
+
+      // If already connected, update runtime config if needed
+      if (this.connections.has(id)) {
+        const conn = this.connections.get(id);
+        if (conn && !conn.injected) {
+          await this.inject(id, config);
+        } else if (conn && conn.injected) {
+          // Pages without the event binding fall back to draining queued events
+          if (!conn.bindingReady) {
+            await this.drainPage(id);
+          }
+          // Update runtime config (acceptAll toggle, rules) only if changed
+          if (this.getRuntimeConfig(config) !== this.lastRuntimeConfig) {
+            await this.inject(id, config);
+          }
+        }
+        continue;
+      }
+      
+      // Need to create new connection
+      // If at max, evict oldest connection first (LRU); generic targets never evict agent targets
+      if (this.connections.size >= this.maxConnections && !(await this.evictOldestConnection(target.agent))) {
+        continue;
+      }
+
+      const page = pages.find(p => `${address}:${p.id}` === id);
+      const success = await this.connect(id, this.getSocketUrl(scan, page.webSocketDebuggerUrl), scan.headers, target.title, address, target.agent,
+        this.selectAdapters(target.title, target.url));
+      if (success) {
+        await this.inject(id, config);
+      }
+    }
+  }
+
+  /**
+   * Whether the supervisor is waiting for an endpoint to come back
+   */
+  isReconnecting(): boolean {
+    return Array.from(this.reconnecting.values()).some(state => state.attempts > 0);
+  }
+
+  /**
+   * Reconnect to an address after a socket closed: immediately, then with jittered backoff while it is away
+   * Pages that are still (or again) listed get connected and injected; gone pages are simply dropped
+   */
+  private scheduleReconnect(address: string, attempts: number = 0): void {
+    if (!this.isEnabled) return;
+    if (attempts === 0 && this.reconnecting.has(address)) return;  // Already supervised
+
+    const backoff = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempts - 1), RECONNECT_MAX_DELAY);
+    const delay = attempts === 0 ? 0 : Math.round(backoff / 2 + Math.random() * backoff / 2);
+    const timer = setTimeout(() => this.reconnect(address, attempts), delay);
+    this.reconnecting.set(address, { attempts, timer });
+    this.statusUpdateCallback?.();
+  }
+
+  private async reconnect(address: string, attempts: number): Promise<void> {
+    if (!this.isEnabled) return;
+
+    try {
+      await this.scanAddress(address, this.currentConfig);
+      this.reconnecting.delete(address);
+      if (attempts > 0) {
+        this.log(`Reconnected to ${address}`, 'success');
+      }
+    } catch (e) {
+      if (attempts + 1 < MAX_RECONNECT_ATTEMPTS) {
+        if (attempts === 0) {
+          this.log(`${address} is not reachable, reconnecting...`, 'warning');
+        }
+        this.scheduleReconnect(address, attempts + 1);
+        return;
+      }
+      this.reconnecting.delete(address);
+      this.log(`${address} did not come back after ${attempts + 1} attempts, waiting for the next rescan`, 'warning');
+    }
+    this.statusUpdateCallback?.();
+  }
+
+  /**
+   * Re-inject after the page navigated or reloaded (the old script and its observers are gone)
+   */
+  private scheduleReinject(id: string): void {
+    const conn = this.connections.get(id);
+    if (!conn || !this.isEnabled) return;
+
+    conn.injected = false;
+    if (conn.reinjectTimer) clearTimeout(conn.reinjectTimer);
+    conn.reinjectTimer = setTimeout(async () => {
+      conn.reinjectTimer = undefined;
+      if (!this.isEnabled || this.connections.get(id) !== conn) return;
+      this.log(`Page ${id} navigated, re-injecting`, 'info');
+      await this.inject(id, this.currentConfig);
+    }, REINJECT_DELAY);
+  }
+
+  /**
+   * Push runtime config (poll interval, backoff, rules, blocklists...) to every injected page
+   * Unlike start(), this also reaches pages on ports outside the current scan range
+   */
+  async updateConfig(config?: CDPConfig): Promise<void> {
+    this.currentConfig = config;
+    for (const [id, conn] of this.connections) {
+      if (conn.injected) {
+        await this.inject(id, config);
+      }
+    }
+    this.lastRuntimeConfig = this.getRuntimeConfig(config);
+  }
+
   /**
    * Stop the CDP handler
-   * Fixed: Cleanup all pending messages to prevent memory leaks
+   * Closing each client rejects its pending requests, so nothing leaks
    * Fixed: Call __autoRetryStop on pages before closing to cleanup observers
    */
   async stop(): Promise<void> {
     this.isEnabled = false;
+    this.scanLogged = false;
+    this.lastConnectionCount = -1;
 
-    // Cleanup all pending messages first
-    for (const [msgId, { timeout, cleanup }] of this.pendingMessages) {
-      clearTimeout(timeout);
-      cleanup();
+    for (const [, state] of this.reconnecting) {
+      clearTimeout(state.timer);
     }
-    this.pendingMessages.clear();
+    this.reconnecting.clear();
+
+    // Collect events that have not been reported yet
+    await this.drainEvents();
 
     // Call __autoRetryStop on each page to cleanup observers before closing
-    for (const [id, conn] of this.connections) {
-      try {
-        if (conn.ws.readyState === 1) { // OPEN
-          // Quick evaluate without waiting (fire and forget)
-          conn.ws.send(JSON.stringify({
-            id: this.msgId++,
-            method: 'Runtime.evaluate',
-            params: { expression: 'if(window.__autoRetryStop) window.__autoRetryStop()' }
-          }));
-        }
-      } catch (e) {
-        // Ignore errors during cleanup
-      }
+    for (const [, conn] of this.connections) {
+      conn.client.sendAndForget('Runtime.evaluate', { expression: STOP_EXPRESSION });
     }
 
     // Give a moment for stop commands to execute, then close
     await new Promise(resolve => setTimeout(resolve, 100));
 
-    for (const [id, conn] of this.connections) {
-      try {
-        conn.ws.close();
-      } catch (e) {
-        // Ignore errors during cleanup
-      }
+    for (const [, conn] of this.connections) {
+      if (conn.reinjectTimer) clearTimeout(conn.reinjectTimer);
+      conn.client.close();
     }
 
     this.connections.clear();
@@ -249,48 +951,61 @@ export class CDPHandler {
   /**
    * Evict the oldest connection (LRU strategy)
    * Called when max connections reached and need to make room for new page
+   * Generic targets go first; agent targets are only evicted to make room for another agent target
+   * @returns false if nothing could be evicted
    */
-  private evictOldestConnection(): void {
+  private async evictOldestConnection(forAgent: boolean = true): Promise<boolean> {
     let oldestId: string | null = null;
+    let oldestAgent = true;
     let oldestTime = Infinity;
 
     for (const [id, conn] of this.connections) {
-      if (conn.connectedAt < oldestTime) {
+      // A generic connection always beats an agent one; among equals the oldest wins
+      if (conn.agent && !oldestAgent) continue;
+      if ((!conn.agent && oldestAgent) || conn.connectedAt < oldestTime) {
         oldestTime = conn.connectedAt;
+        oldestAgent = conn.agent;
         oldestId = id;
       }
     }
 
-    if (oldestId) {
-      const conn = this.connections.get(oldestId);
-      if (conn) {
-        try {
-          // Call __autoRetryStop on the page before closing
-          if (conn.ws.readyState === 1) {
-            conn.ws.send(JSON.stringify({
-              id: this.msgId++,
-              method: 'Runtime.evaluate',
-              params: { expression: 'if(window.__autoRetryStop) window.__autoRetryStop()' }
-            }));
-          }
-          conn.ws.close();
-        } catch (e) {
-          // Ignore errors during eviction
-        }
-        this.connections.delete(oldestId);
-        this.log(`Evicted oldest connection: ${oldestId} (LRU)`, 'info');
-      }
+    if (!oldestId || (oldestAgent && !forAgent)) return false;
+
+    await this.closeConnection(oldestId);
+    this.log(`Evicted oldest connection: ${oldestId} (LRU)`, 'info');
+    return true;
+  }
+
+  /**
+   * Stop the script on a page and close its connection, keeping its pending events
+   */
+  private async closeConnection(id: string): Promise<void> {
+    await this.drainPage(id);
+
+    const conn = this.connections.get(id);
+    if (conn) {
+      // Call __autoRetryStop on the page before closing
+      if (conn.reinjectTimer) clearTimeout(conn.reinjectTimer);
+      conn.client.sendAndForget('Runtime.evaluate', { expression: STOP_EXPRESSION });
+      conn.client.close();
+      this.connections.delete(id);
     }
   }
 
   /**
    * Get list of pages from CDP endpoint
+   * Rejects if nothing is listening on the port or the endpoint refuses the request
    */
-  private async getPages(port: number): Promise<any[]> {
+  private async getPages(scan: ScanAddress): Promise<any[]> {
     return new Promise((resolve, reject) => {
-      const req = http.get(
-        { hostname: '127.0.0.1', port, path: '/json/list', timeout: 1000 },
+      const req = (scan.secure ? https : http).get(
+        { hostname: scan.host, port: scan.port, path: '/json/list', headers: scan.headers, timeout: 1000 },
         (res) => {
+          if (res.statusCode !== 200) {
+            res.resume();
+            reject(new Error(`HTTP ${res.statusCode}`));
+            return;
+          }
           let body = '';
           res.on('data', chunk => body += chunk);
           res.on('end', () => {
@@ -298,7 +1013,7 @@ export class CDPHandler {
               const pages = JSON.parse(body);
               resolve(pages.filter((p: any) =>
                 p.webSocketDebuggerUrl &&
-                (p.type === 'page' || p.type === 'webview')
+                this.targetMatchers.types.includes(p.type)
               ));
             } catch (e) {
               resolve([]);
@@ -306,60 +1021,65 @@ export class CDPHandler {
           });
         }
       );
-      req.on('error', () => resolve([]));
+      req.on('error', reject);
       req.on('timeout', () => {
-        req.destroy();
-        resolve([]);
+        req.destroy(new Error('CDP endpoint timeout'));
       });
     });
   }
 
+  /**
+   * Point a page's WebSocket URL at the endpoint it was listed on
+   * The browser builds it from its own view of the host, which is wrong behind port forwards and proxies
+   */
+  private getSocketUrl(scan: ScanAddress, pageUrl: string): string {
+    const url = new URL(pageUrl);
+    url.protocol = scan.secure ? 'wss:' : 'ws:';
+    url.hostname = scan.host;
+    url.port = String(scan.port);
+    return url.toString();
+  }
+
   /**
    * Connect to a CDP page via WebSocket
-   * Fixed: Added 5s timeout to prevent hanging connections
+   * CDPClient times out after 5s to prevent hanging connections
+   * The supervisor re-injects after navigation and reconnects after the socket closes
    */
-  private async connect(id: string, url: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      try {
-        const ws = new WebSocket(url);
-        let resolved = false;
-
-        // Timeout after 5 seconds
-        const timeout = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            this.log(`Connection timeout for ${id}`, 'warning');
-            try { ws.close(); } catch (e) {}
-            resolve(false);
-          }
-        }, 5000);
-
-        ws.on('open', () => {
-          if (resolved) return;
-          resolved = true;
-          clearTimeout(timeout);
-          this.connections.set(id, { ws, injected: false, connectedAt: Date.now() });
-          this.log(`Connected to page ${id}`, 'success');
-          resolve(true);
-        });
-
-        ws.on('error', (err: any) => {
-          if (resolved) return;
-          resolved = true;
-          clearTimeout(timeout);
-          this.log(`WebSocket error for ${id}: ${err.message}`, 'error');
-          resolve(false);
-        });
-
-        ws.on('close', () => {
-          // Connection was closed - remove from map and mark for re-injection
-          this.connections.delete(id);
-          this.log(`Disconnected from page ${id}`, 'info');
-        });
-      } catch (e) {
-        resolve(false);
-      }
+  private async connect(id: string, url: string, headers: Record<string, string>, title: string, endpoint: string, agent: boolean, adapters: AgentAdapter[]): Promise<boolean> {
+    let client: CDPClient;
+    try {
+      client = await CDPClient.connect(url, undefined, headers);
+    } catch (err: any) {
+      this.log(`WebSocket error for ${id}: ${err.message}`, err.message === 'Connection timeout' ? 'warning' : 'error');
+      return false;
+    }
+
+    this.connections.set(id, { client, injected: false, bindingReady: false, connectedAt: Date.now(), title, endpoint, agent, adapters, screenshots: new Map() });
+    client.on('Runtime.bindingCalled', (params: { name: string; payload: string }) => this.handleBindingCalled(id, params));
+    client.on('Runtime.executionContextsCleared', () => this.scheduleReinject(id));
+    client.on('Page.frameNavigated', (params: { frame: { parentId?: string } }) => {
+      if (!params.frame?.parentId) this.scheduleReinject(id);
     });
+    client.on('close', () => {
+      // Connection was closed (evictions and stop() remove it from the map first)
+      const conn = this.connections.get(id);
+      if (conn?.client !== client) return;
+      if (conn.reinjectTimer) clearTimeout(conn.reinjectTimer);
+      this.connections.delete(id);
+      this.log(`Disconnected from page ${id}`, 'info');
+      this.eventCallback?.([{ type: 'disconnected', pageId: id, pageTitle: title, timestamp: Date.now() }]);
+      this.scheduleReconnect(endpoint);
+    });
+
+    // Navigation events; not every target supports the Page domain
+    try {
+      await client.send('Page.enable');
+    } catch (e) {
+      // Fall back to Runtime.executionContextsCleared only
+    }
+
+    this.log(`Connected to page ${id}`, 'success');
+    return true;
   }
 
   /**
@@ -372,6 +1092,11 @@ export class CDPHandler {
 
     try {
       if (!conn.injected) {
+        // Register the event binding before the script starts emitting (it survives navigation)
+        if (!conn.bindingReady) {
+          conn.bindingReady = await this.addEventBinding(conn.client, id);
+        }
+
         // First time: inject script with config embedded
         const script = this.getInjectScript(config);
         await this.evaluate(id, script);
@@ -379,11 +1104,15 @@ export class CDPHandler {
         this.log(`Script injected into ${id}`, 'success');
         
         // Start the auto-retry (only once after injection)
-        const configJson = JSON.stringify(config || {});
+        const configJson = JSON.stringify({ ...config, adapters: conn.adapters });
         await this.evaluate(id, `if(window.__autoRetryStart) window.__autoRetryStart(${configJson})`);
       } else {
-        // Already injected - update runtime config (e.g. acceptAll toggle)
-        await this.evaluate(id, `if(window.__autoRetryConfig) window.__autoRetryConfig.acceptAll = ${!!config?.acceptAll}`);
+        // Already injected - update runtime config (acceptAll toggle, rules, poll interval...)
+        const runtimeConfig = this.getRuntimeConfig(config, conn.adapters);
+        await this.evaluate(id,
+          `if(window.__autoRetryApplyConfig) window.__autoRetryApplyConfig(${runtimeConfig}); ` +
+          `else if(window.__autoRetryConfig) Object.assign(window.__autoRetryConfig, ${runtimeConfig})`
+        );
       }
     } catch (e: any) {
       this.log(`Injection failed for ${id}: ${e.message}`, 'error');
@@ -391,55 +1120,123 @@ export class CDPHandler {
   }
 
   /**
-   * Evaluate JavaScript in the page context
-   * Fixed: Properly cleanup message listeners on timeout to prevent memory leaks
+   * Register the CDP binding used by the injected script to push events
    */
-  private async evaluate(id: string, expression: string): Promise<any> {
+  private async addEventBinding(client: CDPClient, id: string): Promise<boolean> {
+    try {
+      await client.send('Runtime.enable');
+      await client.send('Runtime.addBinding', { name: EVENT_BINDING });
+      return true;
+    } catch (e: any) {
+      this.log(`Event binding unavailable for ${id}, falling back to polling: ${e.message}`, 'warning');
+      return false;
+    }
+  }
+
+  /**
+   * Handle a binding call from the injected script
+   */
+  private handleBindingCalled(id: string, params: { name: string; payload: string }): void {
+    if (params.name !== EVENT_BINDING) return;
+
+    let event: CDPEvent | ScreenshotRequest | ActivityReport;
+    try {
+      event = JSON.parse(params.payload);
+    } catch (e) {
+      return;  // Ignore malformed payloads
+    }
+
+    if (event.type === 'activity') {
+      this.activityCallback?.();
+      return;
+    }
+
     const conn = this.connections.get(id);
-    if (!conn || conn.ws.readyState !== WebSocket.OPEN) return;
+    if (event.type === 'capture') {
+      // The script holds the click back for SCREENSHOT_DELAY, so the panel is still on screen
+      if (!conn || !event.rect || !this.currentConfig?.captureScreenshots) return;
+      conn.screenshots.set(event.captureId, this.captureScreenshot(id, event.rect));
+      for (const captureId of conn.screenshots.keys()) {
+        if (conn.screenshots.size <= MAX_PENDING_SCREENSHOTS) break;
+        conn.screenshots.delete(captureId);  // The click never happened (button gone)
+      }
+      return;
+    }
 
-    return new Promise((resolve, reject) => {
-      const currentId = this.msgId++;
-      let resolved = false;
-
-      const cleanup = () => {
-        if (resolved) return;
-        resolved = true;
-        conn.ws.off('message', onMessage);
-        this.pendingMessages.delete(currentId);
-      };
+    event.pageId = id;
+    event.pageTitle = conn?.title;
+    const snapshot = event.snapshot;
+    const screenshot = snapshot?.captureId !== undefined ? conn?.screenshots.get(snapshot.captureId) : undefined;
+    if (snapshot && screenshot) {
+      conn!.screenshots.delete(snapshot.captureId!);
+      const clicked = event;
+      screenshot.then(data => {
+        if (data) snapshot.screenshot = data;
+        this.eventCallback?.([clicked]);
+      });
+      return;
+    }
+    this.eventCallback?.([event]);
+  }
 
-      const timeout = setTimeout(() => {
-        cleanup();
-        reject(new Error('CDP Timeout'));
-      }, 5000);
+  /**
+   * JPEG clip of a page region as base64 (undefined if the page cannot be captured)
+   */
+  private async captureScreenshot(id: string, rect: { x: number; y: number; width: number; height: number }): Promise<string | undefined> {
+    const conn = this.connections.get(id);
+    if (!conn || !conn.client.isOpen || rect.width <= 0 || rect.height <= 0) return undefined;
 
-      const onMessage = (data: any) => {
-        try {
-          const msg = JSON.parse(data.toString());
-          if (msg.id === currentId) {
-            clearTimeout(timeout);
-            cleanup();
-            resolve(msg.result);
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
-      };
+    try {
+      const res = await conn.client.send('Page.captureScreenshot', {
+        format: 'jpeg',
+        quality: 70,
+        clip: { ...rect, scale: 1 }
+      });
+      return res?.data;
+    } catch (e) {
+      return undefined;
+    }
+  }
 
-      // Track pending message for cleanup on stop()
-      this.pendingMessages.set(currentId, { timeout, cleanup });
-
-      conn.ws.on('message', onMessage);
-      conn.ws.send(JSON.stringify({
-        id: currentId,
-        method: 'Runtime.evaluate',
-        params: {
-          expression,
-          userGesture: true,
-          awaitPromise: true
-        }
-      }));
+  /**
+   * Serialize the part of the config that can change while injected (with the page's adapters, if given)
+   */
+  private getRuntimeConfig(config?: CDPConfig, adapters?: AgentAdapter[]): string {
+    return JSON.stringify({
+      pollInterval: config?.pollInterval ?? 1000,
+      cooldown: config?.cooldown ?? 5000,
+      maxBackoff: config?.maxBackoff ?? 300000,
+      maxRetryAttempts: config?.maxRetryAttempts ?? 5,
+      acceptAll: !!config?.acceptAll,
+      rules: config?.rules ?? DEFAULT_BUTTON_RULES,
+      errorCategories: config?.errorCategories ?? DEFAULT_ERROR_CATEGORIES,
+      bannedCommands: config?.bannedCommands ?? DEFAULT_BANNED_COMMANDS,
+      allowedCommands: config?.allowedCommands ?? [],
+      acceptAllGuards: config?.acceptAllGuards ?? DEFAULT_ACCEPT_ALL_GUARDS,
+      dryRun: !!config?.dryRun,
+      highlightClicks: !!config?.highlightClicks,
+      captureSnapshots: !!config?.captureSnapshots,
+      captureScreenshots: !!config?.captureScreenshots,
+      autoContinue: !!config?.autoContinue,
+      maxConsecutiveContinues: config?.maxConsecutiveContinues ?? 10,
+      commandApproval: !!config?.commandApproval,
+      approvedCommands: config?.approvedCommands ?? DEFAULT_APPROVED_COMMANDS,
+      ...(adapters ? { adapters } : {})
+    });
+  }
+
+  /**
+   * Evaluate JavaScript in the page context
+   * Resolves undefined if the page is not connected
+   */
+  private async evaluate(id: string, expression: string): Promise<any> {
+    const conn = this.connections.get(id);
+    if (!conn || !conn.client.isOpen) return;
+
+    return conn.client.send('Runtime.evaluate', {
+      expression,
+      userGesture: true,
+      awaitPromise: true
     });
   }
 
@@ -447,7 +1244,7 @@ export class CDPHandler {
    * Get stats from all connected pages
    */
   async getStats(): Promise<CDPStats> {
-    const stats: CDPStats = { clicks: 0, blocked: 0, acceptAllClicks: 0 };
+    const stats: CDPStats = { clicks: 0, blocked: 0, acceptAllClicks: 0, circuitOpen: 0, wouldClick: 0, continueClicks: 0, commandApprovals: 0 };
 
     for (const [id] of this.connections) {
       try {
@@ -459,6 +1256,10 @@ export class CDPHandler {
           stats.clicks += s.clicks || 0;
           stats.blocked += s.blocked || 0;
           stats.acceptAllClicks += s.acceptAllClicks || 0;
+          stats.circuitOpen += s.circuitOpen || 0;
+          stats.wouldClick = (stats.wouldClick || 0) + (s.wouldClick || 0);
+          stats.continueClicks = (stats.continueClicks || 0) + (s.continueClicks || 0);
+          stats.commandApprovals = (stats.commandApprovals || 0) + (s.commandApprovals || 0);
         }
       } catch (e) {
         // Ignore errors
@@ -468,6 +1269,66 @@ export class CDPHandler {
     return stats;
   }
 
+  /**
+   * Outline the controls rules match on all connected pages for durationMs and list them
+   */
+  async highlightCandidates(durationMs: number): Promise<CandidateHighlight[]> {
+    const candidates: CandidateHighlight[] = [];
+
+    for (const [id, conn] of this.connections) {
+      try {
+        const res = await this.evaluate(id,
+          `JSON.stringify(window.__autoRetryHighlightCandidates ? window.__autoRetryHighlightCandidates(${Math.max(0, Math.round(durationMs))}) : [])`
+        );
+        if (res?.result?.value) {
+          for (const candidate of JSON.parse(res.result.value)) {
+            candidates.push({ ...candidate, pageId: id, pageTitle: conn.title });
+          }
+        }
+      } catch (e) {
+        // Ignore errors
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Drain pending events from all connected pages and report them to the event callback
+   */
+  async drainEvents(): Promise<void> {
+    for (const [id] of this.connections) {
+      await this.drainPage(id);
+    }
+  }
+
+  /**
+   * Drain pending events from a single page
+   */
+  private async drainPage(id: string): Promise<void> {
+    const conn = this.connections.get(id);
+    if (!conn) return;
+
+    try {
+      const res = await this.evaluate(id,
+        'JSON.stringify(window.__autoRetryDrainEvents ? window.__autoRetryDrainEvents() : [])'
+      );
+      if (res?.result?.value) {
+        // Screenshot requests and activity reports only come through the binding
+        const events: CDPEvent[] = JSON.parse(res.result.value).filter((event: CDPEvent | ScreenshotRequest | ActivityReport) => event.type !== 'capture' && event.type !== 'activity').map((event: CDPEvent) => ({
+          ...event,
+          pageId: id,
+          pageTitle: conn.title
+        }));
+        if (events.length > 0) {
+          this.eventCallback?.(events);
+        }
+      }
+    } catch (e) {
+      // Ignore errors
+    }
+  }
+
   /**
    * Reset stats on all connected pages
    */
@@ -482,95 +1343,480 @@ export class CDPHandler {
       }
     }
 
-    return stats;
+    return stats;
+  }
+
+  /**
+   * Get number of active connections
+   */
+  getConnectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Check if handler is running
+   */
+  isRunning(): boolean {
+    return this.isEnabled && this.connections.size > 0;
+  }
+
+  /**
+   * Get the auto-retry inject script
+   * @param config Optional config to embed in script
+   */
+  getInjectScript(config?: CDPConfig): string {
+    return `
+(function() {
+  // Prevent double-loading
+  if (window.__autoRetryLoaded) {
+    console.log('[Auto Retry] Already loaded!');
+    return;
+  }
+  window.__autoRetryLoaded = true;
+
+  // Stats tracking
+  let stats = { clicks: 0, blocked: 0, acceptAllClicks: 0, circuitOpen: 0, wouldClick: 0, continueClicks: 0, commandApprovals: 0, categories: {} };
+
+  // Events waiting to be drained by the extension (only used without the CDP binding)
+  let pendingEvents = [];
+  const MAX_PENDING_EVENTS = 100;
+
+  // Config (exposed on window for runtime updates)
+  window.__autoRetryConfig = {
+    pollInterval: 1000,
+    acceptAll: ${!!config?.acceptAll},
+    dryRun: ${!!config?.dryRun},
+    highlightClicks: ${!!config?.highlightClicks},
+    captureSnapshots: ${!!config?.captureSnapshots},
+    captureScreenshots: ${!!config?.captureScreenshots},
+    autoContinue: ${!!config?.autoContinue},
+    maxConsecutiveContinues: ${config?.maxConsecutiveContinues ?? 10},
+    commandApproval: ${!!config?.commandApproval},
+    approvedCommands: ${JSON.stringify(config?.approvedCommands ?? DEFAULT_APPROVED_COMMANDS)},
+    cooldown: ${config?.cooldown ?? 5000},
+    maxBackoff: ${config?.maxBackoff ?? 300000},
+    maxRetryAttempts: ${config?.maxRetryAttempts ?? 5},
+    rules: ${JSON.stringify(config?.rules ?? DEFAULT_BUTTON_RULES)},
+    errorCategories: ${JSON.stringify(config?.errorCategories ?? DEFAULT_ERROR_CATEGORIES)},
+    bannedCommands: ${JSON.stringify(config?.bannedCommands ?? DEFAULT_BANNED_COMMANDS)},
+    allowedCommands: ${JSON.stringify(config?.allowedCommands ?? [])},
+    acceptAllGuards: ${JSON.stringify(config?.acceptAllGuards ?? DEFAULT_ACCEPT_ALL_GUARDS)},
+    adapters: ${JSON.stringify(config?.adapters ?? [])}
+  };
+  let config = window.__autoRetryConfig;
+
+  let isProcessing = false;
+  let pollTimer = null;
+  
+  // Track observers to prevent accumulation (PERFORMANCE FIX)
+  let observers = [];
+  let observerSetupDone = false;
+
+  // Push an event to the extension via the CDP binding, or queue it for __autoRetryDrainEvents
+  function emitEvent(event) {
+    event.timestamp = Date.now();
+    if (typeof window.${EVENT_BINDING} === 'function') {
+      try {
+        window.${EVENT_BINDING}(JSON.stringify(event));
+        return;
+      } catch (e) {}
+    }
+    pendingEvents.push(event);
+    if (pendingEvents.length > MAX_PENDING_EVENTS) pendingEvents.shift();
+  }
+
+  // Find the closest ancestor whose text or class contains one of the keywords (the error panel)
+  function findErrorContainer(element, keywords) {
+    const lowerKeywords = keywords.map(k => String(k).toLowerCase());
+    let el = element;
+    for (let i = 0; i < 5 && el; i++) {
+      const text = (el.textContent || '').toLowerCase();
+      const className = (typeof el.className === 'string' ? el.className : '').toLowerCase();
+      if (lowerKeywords.some(k => text.includes(k) || className.includes(k))) {
+        return el;
+      }
+      el = el.parentElement;
+    }
+    return null;
+  }
+
+  // Compile rule matchers once per rules array (rules are replaced on live update)
+  let compiledRules = [];
+  let compiledFrom = null;
+
+  // Plain text matches exactly, or as a case-insensitive substring when substring is set
+  function compileMatcher(match, substring) {
+    const regex = /^\\/(.*)\\/([a-z]*)$/.exec(match);
+    if (regex) {
+      try {
+        const re = new RegExp(regex[1], regex[2].replace('g', ''));
+        return text => re.test(text);
+      } catch (e) {
+        console.log('[Auto Retry] Invalid rule regex: ' + match);
+        return () => false;
+      }
+    }
+    if (substring) {
+      const lowerMatch = match.toLowerCase();
+      return text => text.toLowerCase().includes(lowerMatch);
+    }
+    return text => text === match;
+  }
+
+  function getRules(type) {
+    if (config.rules !== compiledFrom) {
+      compiledFrom = config.rules;
+      compiledRules = (Array.isArray(config.rules) ? config.rules : [])
+        .filter(rule => rule && rule.enabled !== false && typeof rule.match === 'string')
+        .map(rule => Object.assign({}, rule, { test: compileMatcher(rule.match) }));
+    }
+    return compiledRules.filter(rule => (rule.type || 'retry') === type);
+  }
+
+  function getRuleName(rule) {
+    return rule.name || rule.match;
+  }
+
+  // Text and selector of a rule (and its context keywords, if any) against a located control
+  function ruleMatchesControl(rule, el, text) {
+    if (!rule.test(text)) return false;
+    if (rule.selector) {
+      try { if (!el.matches(rule.selector)) return false; } catch (e) { return false; }
+    }
+    const keywords = rule.contextKeywords || [];
+    return keywords.length === 0 || !!findErrorContainer(el, keywords);
+  }
+
+  // Agent adapters picked for this page by the handler
+  function getAdapters() {
+    return (Array.isArray(config.adapters) ? config.adapters : [])
+      .filter(adapter => adapter && typeof adapter.id === 'string' && Array.isArray(adapter.errorContainers));
+  }
+
+  function queryAll(root, selector) {
+    try { return Array.from(root.querySelectorAll(selector)); } catch (e) { return []; }
+  }
+
+  // Visible label of a control (icon buttons often only have aria-label or title)
+  function getControlText(el) {
+    const text = el.textContent || el.getAttribute('aria-label') || el.getAttribute('title') || '';
+    return text.replace(/\\s+/g, ' ').trim();
+  }
+
+  // Notify once per element for rules with action "notify"
+  let notifiedElements = new WeakSet();
+
+  function notifyMatch(el, rule, text, errorText) {
+    if (notifiedElements.has(el)) return;
+    notifiedElements.add(el);
+    emitEvent({ type: 'notify', action: rule.type || 'retry', rule: getRuleName(rule), buttonText: text, errorText: errorText });
+    console.log('[Auto Retry] 🔔 Matched notify rule "' + getRuleName(rule) + '"');
+  }
+
+  // Dry-run: report each candidate once per element instead of clicking it
+  let reportedCandidates = new WeakSet();
+
+  function describeElement(el) {
+    const tag = (el.tagName || '').toLowerCase();
+    const id = el.id ? '#' + el.id : '';
+    const classes = typeof el.className === 'string' ? el.className.trim().split(/\\s+/).filter(Boolean).slice(0, 2) : [];
+    return tag + id + classes.map(c => '.' + c).join('');
+  }
+
+  function reportWouldClick(el, rule, text, details) {
+    if (reportedCandidates.has(el)) return;
+    reportedCandidates.add(el);
+    stats.wouldClick++;
+    emitEvent(Object.assign({ type: 'would-click', action: rule.type || 'retry', rule: getRuleName(rule), buttonText: text, element: describeElement(el) }, details));
+    flashClick(el, 'would click ' + text + ' (rule "' + getRuleName(rule) + '")', 'would-click');
+    console.log('[Auto Retry] 👀 Dry run: would click "' + text + '" (rule "' + getRuleName(rule) + '")');
+  }
+
+  // Per-panel retry tracking (exponential backoff + circuit breaker)
+  // Keyed by error text so a re-rendered panel with the same error keeps its history
+  let retryTrackers = new Map();
+  let scanCount = 0;
+  const TRACKER_IDLE_RESET = 10 * 60 * 1000;
+  // An error missing from every scan for this long recovered; if it shows up again, it starts over
+  const TRACKER_RECOVERED_AFTER = 60 * 1000;
+
+  function getErrorSignature(container) {
+    return (container.textContent || '').replace(/\\s+/g, ' ').trim().slice(0, 300);
+  }
+
+  // Error message near the button: the adapter's message elements, else container text without the text of its buttons
+  function extractErrorMessage(container, adapter) {
+    if (adapter && adapter.errorMessage) {
+      const parts = queryAll(container, adapter.errorMessage).map(el => (el.textContent || '').trim()).filter(Boolean);
+      if (parts.length > 0) return parts.join(' ').replace(/\\s+/g, ' ').trim().slice(0, 300);
+    }
+    let text = container.textContent || '';
+    try {
+      for (const btn of container.querySelectorAll('button, [role="button"]')) {
+        const btnText = btn.textContent || '';
+        if (btnText) text = text.replace(btnText, ' ');
+      }
+    } catch (e) {}
+    return text.replace(/\\s+/g, ' ').trim().slice(0, 300);
+  }
+
+  // Compile category patterns once per table (replaced on live update)
+  let compiledCategories = [];
+  let categoriesFrom = null;
+
+  // Classify an error message: first category with a matching pattern wins
+  function classifyError(message) {
+    if (config.errorCategories !== categoriesFrom) {
+      categoriesFrom = config.errorCategories;
+      compiledCategories = (Array.isArray(config.errorCategories) ? config.errorCategories : [])
+        .filter(c => c && typeof c.category === 'string')
+        .map(c => ({
+          category: c.category,
+          policy: c.policy || 'backoff',
+          tests: (Array.isArray(c.patterns) ? c.patterns : []).map(p => compileMatcher(String(p), true))
+        }));
+    }
+    for (const c of compiledCategories) {
+      if (c.tests.some(test => test(message))) return c;
+    }
+    const fallback = compiledCategories.find(c => c.category === 'unknown');
+    return { category: 'unknown', policy: fallback ? fallback.policy : 'backoff' };
+  }
+
+  function getRetryTracker(key, now, buttonText, container, adapter) {
+    let tracker = retryTrackers.get(key);
+    if (!tracker || now - tracker.lastSeen > TRACKER_IDLE_RESET || (tracker.goneSince && now - tracker.goneSince > TRACKER_RECOVERED_AFTER)) {
+      const message = extractErrorMessage(container, adapter);
+      const classification = classifyError(message);
+      tracker = {
+        attempts: 0, nextAllowed: 0, exhausted: false, lastSeen: now,
+        message: message, category: classification.category, policy: classification.policy
+      };
+      retryTrackers.set(key, tracker);
+      emitEvent({ type: 'error-detected', action: 'retry', category: tracker.category, buttonText: buttonText, errorText: message });
+    }
+    tracker.lastSeen = now;
+    tracker.lastScan = scanCount;
+    tracker.goneSince = 0;
+    return tracker;
+  }
+
+  // After a scan: note when each error went missing, drop the ones that recovered or have not been seen for a while
+  function pruneRetryTrackers(now) {
+    for (const [key, tracker] of retryTrackers) {
+      if (tracker.lastScan !== scanCount && !tracker.goneSince) tracker.goneSince = now;
+      if (now - tracker.lastSeen > TRACKER_IDLE_RESET || (tracker.goneSince && now - tracker.goneSince > TRACKER_RECOVERED_AFTER)) {
+        retryTrackers.delete(key);
+      }
+    }
+  }
+
+  function getBackoffDelay(attempts) {
+    const delay = config.cooldown * Math.pow(2, Math.max(0, attempts - 1));
+    return Math.min(delay, config.maxBackoff);
+  }
+
+  // Command patterns: /regex/flags, glob (* and ?), or case-insensitive substring
+  function compileCommandPattern(pattern) {
+    if (/^\\/.*\\/[a-z]*$/.test(pattern) || !/[*?]/.test(pattern)) {
+      return compileMatcher(pattern, true);
+    }
+    let source = '';
+    for (const ch of pattern) {
+      if (ch === '*') source += '.*';
+      else if (ch === '?') source += '.';
+      else source += /[a-z0-9]/i.test(ch) ? ch : '\\\\' + ch;
+    }
+    const re = new RegExp(source, 'i');
+    return text => re.test(text);
+  }
+
+  let compiledBannedFrom = null;
+  let compiledBanned = [];
+  let compiledAllowedFrom = null;
+  let compiledAllowed = [];
+
+  function compileCommandPatterns(patterns) {
+    return (Array.isArray(patterns) ? patterns : [])
+      .filter(p => typeof p === 'string' && p.length > 0)
+      .map(p => ({ pattern: p, test: compileCommandPattern(p) }));
+  }
+
+  // Return the banned pattern matching the command text, unless an allowed pattern overrides it
+  function isDangerousCommand(text) {
+    if (config.bannedCommands !== compiledBannedFrom) {
+      compiledBannedFrom = config.bannedCommands;
+      compiledBanned = compileCommandPatterns(config.bannedCommands);
+    }
+    if (config.allowedCommands !== compiledAllowedFrom) {
+      compiledAllowedFrom = config.allowedCommands;
+      compiledAllowed = compileCommandPatterns(config.allowedCommands);
+    }
+
+    const banned = compiledBanned.find(p => p.test(text));
+    if (!banned) return null;
+    if (compiledAllowed.some(p => p.test(text))) return null;
+    return banned.pattern;
+  }
+
+  // Approval patterns match the whole command: text exactly and globs anchored at both ends (case-insensitive),
+  // regexes as written. Text and globs never approve a command that chains, pipes, redirects or substitutes
+  const SHELL_OPERATORS = /[;&|<>\\n\\r\`]|\\$\\(/;
+
+  function compileApprovalPattern(pattern) {
+    if (/^\\/.*\\/[a-z]*$/.test(pattern)) return compileMatcher(pattern, true);
+    let source = '';
+    for (const ch of pattern) {
+      if (ch === '*') source += '.*';
+      else if (ch === '?') source += '.';
+      else source += /[a-z0-9]/i.test(ch) ? ch : '\\\\' + ch;
+    }
+    const re = new RegExp('^' + source + '$', 'i');
+    return text => !SHELL_OPERATORS.test(text) && re.test(text);
+  }
+
+  let compiledApprovedFrom = null;
+  let compiledApproved = [];
+
+  // Return the approval pattern matching a proposed command, or null
+  function isApprovedCommand(command) {
+    if (config.approvedCommands !== compiledApprovedFrom) {
+      compiledApprovedFrom = config.approvedCommands;
+      compiledApproved = (Array.isArray(config.approvedCommands) ? config.approvedCommands : [])
+        .filter(p => typeof p === 'string' && p.trim().length > 0)
+        .map(p => ({ pattern: p, test: compileApprovalPattern(p.trim()) }));
+    }
+    const approved = compiledApproved.find(p => p.test(command));
+    return approved ? approved.pattern : null;
+  }
+
+  // Accept All guards: check the diff summary shown next to the control before accepting
+  // Path-like tokens: contain a slash or end in an extension (".env", "src/app.ts")
+  function extractPaths(text) {
+    const paths = [];
+    for (let token of text.split(/\\s+/)) {
+      token = token.replace(/^[("'\\[]+|[)"'\\],:;]+$/g, '');
+      if (!token || token.includes('://') || !/[a-z]/i.test(token)) continue;
+      if (!/^[\\w@.\\/-]+$/.test(token)) continue;
+      if (token.includes('/') || /\\.[a-z0-9]{1,10}$/i.test(token)) paths.push(token.replace(/^\\.\\//, ''));
+    }
+    return paths;
   }
 
-  /**
-   * Get number of active connections
-   */
-  getConnectionCount(): number {
-    return this.connections.size;
+  // Sum "+12" / "-3" line counters
+  function countChangedLines(text) {
+    let lines = 0;
+    const re = /(?:^|\\s)[+\\-−](\\d+)(?=\\s|$)/g;
+    let m;
+    while ((m = re.exec(text))) lines += parseInt(m[1], 10);
+    return lines;
   }
 
-  /**
-   * Check if handler is running
-   */
-  isRunning(): boolean {
-    return this.isEnabled && this.connections.size > 0;
+  // Nearest ancestor (up to 8 levels) that lists changed files or line counts
+  function getDiffSummary(el) {
+    let node = el.parentElement;
+    for (let i = 0; i < 8 && node; i++, node = node.parentElement) {
+      // Full paths often sit in data-path/title while the visible text is only the file name
+      const files = new Set();
+      const textPaths = [];
+      let lines = 0;
+      for (const child of node.querySelectorAll('*')) {
+        const attr = child.getAttribute('data-path') || child.getAttribute('title') || '';
+        if (attr) extractPaths(attr).forEach(p => files.add(p));
+        if (child.children.length > 0) continue;
+        const text = child.textContent || '';
+        textPaths.push(...extractPaths(text));
+        lines += countChangedLines(text);
+      }
+      const names = new Set(Array.from(files).map(p => p.split('/').pop()));
+      textPaths.filter(p => !names.has(p.split('/').pop())).forEach(p => files.add(p));
+      const stated = /(\\d+)\\s+files?\\s+(changed|edited|modified)/i.exec(node.textContent || '');
+      const fileCount = Math.max(files.size, stated ? parseInt(stated[1], 10) : 0);
+      if (fileCount > 0 || lines > 0) {
+        return { files: Array.from(files), fileCount: fileCount, lines: lines, text: node.textContent || '' };
+      }
+    }
+    return null;
   }
 
-  /**
-   * Get the auto-retry inject script
-   * @param config Optional config to embed in script
-   */
-  private getInjectScript(config?: CDPConfig): string {
-    return `
-(function() {
-  // Prevent double-loading
-  if (window.__autoRetryLoaded) {
-    console.log('[Auto Retry] Already loaded!');
-    return;
+  // Path globs: ** spans directories, * and ? stay within one; globs without "/" match the file name
+  function compilePathGlob(glob) {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+      const ch = glob[i];
+      if (ch === '*' && glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') { source += '(?:.*\\/)?'; i += 2; }
+        else { source += '.*'; i++; }
+      }
+      else if (ch === '*') source += '[^/]*';
+      else if (ch === '?') source += '[^/]';
+      else source += /[a-z0-9]/i.test(ch) ? ch : '\\\\' + ch;
+    }
+    const re = new RegExp('^' + source + '$', 'i');
+    const nameOnly = !glob.includes('/');
+    return path => {
+      const parts = path.split('/');
+      if (nameOnly) return re.test(parts[parts.length - 1]);
+      for (let i = 0; i < parts.length; i++) {
+        if (re.test(parts.slice(i).join('/'))) return true;
+      }
+      return false;
+    };
   }
-  window.__autoRetryLoaded = true;
 
-  // Stats tracking
-  let stats = { clicks: 0, blocked: 0, acceptAllClicks: 0 };
+  let compiledPathsFrom = null;
+  let compiledPaths = [];
+  let compiledContentFrom = null;
+  let compiledContent = [];
 
-  // Config (exposed on window for runtime updates)
-  window.__autoRetryConfig = {
-    pollInterval: 1000,
-    acceptAll: ${!!config?.acceptAll},
-    bannedCommands: [
-      'rm -rf /',
-      'rm -rf ~',
-      'rm -rf *',
-      'format c:',
-      'del /f /s /q',
-      'rmdir /s /q',
-      ':(){:|:&};:',
-      'dd if=',
-      'mkfs.',
-      '> /dev/sda',
-      'chmod -R 777 /'
-    ]
-  };
-  let config = window.__autoRetryConfig;
+  // Return the first tripped guard for the changes an Accept All control would accept
+  function checkAcceptAllGuards(el) {
+    const guards = config.acceptAllGuards || {};
+    const summary = getDiffSummary(el);
+    if (!summary) return null;
 
-  let isProcessing = false;
-  let pollTimer = null;
-  
-  // Track observers to prevent accumulation (PERFORMANCE FIX)
-  let observers = [];
-  let observerSetupDone = false;
+    if (guards.maxFiles > 0 && summary.fileCount > guards.maxFiles) {
+      return { guard: 'max-files', pattern: String(guards.maxFiles), summary: summary };
+    }
+    if (guards.maxLines > 0 && summary.lines > guards.maxLines) {
+      return { guard: 'max-lines', pattern: String(guards.maxLines), summary: summary };
+    }
 
-  // Only click Retry button
-  const RETRY_PATTERN = 'Retry';
-  const ACCEPT_ALL_PATTERN = 'Accept All';
+    if (guards.protectedPaths !== compiledPathsFrom) {
+      compiledPathsFrom = guards.protectedPaths;
+      compiledPaths = (Array.isArray(guards.protectedPaths) ? guards.protectedPaths : [])
+        .filter(p => typeof p === 'string' && p.length > 0)
+        .map(p => ({ pattern: p, test: compilePathGlob(p) }));
+    }
+    for (const path of summary.files) {
+      const hit = compiledPaths.find(p => p.test(path));
+      if (hit) return { guard: 'protected-path', pattern: hit.pattern, summary: summary };
+    }
 
-  // Check if element is in an error context
-  function isErrorContext(element) {
-    let el = element;
-    for (let i = 0; i < 5 && el; i++) {
-      const text = el.textContent || '';
-      const className = el.className || '';
-      if (text.includes('error') || text.includes('Error') || 
-          text.includes('failed') || text.includes('Failed') ||
-          text.includes('terminated') || text.includes('Agent terminated') ||
-          text.includes('Dismiss') ||
-          className.includes('error') || className.includes('alert')) {
-        return true;
-      }
-      el = el.parentElement;
+    if (guards.bannedContent !== compiledContentFrom) {
+      compiledContentFrom = guards.bannedContent;
+      compiledContent = compileCommandPatterns(guards.bannedContent);
     }
-    return false;
+    const banned = compiledContent.find(p => p.test(summary.text));
+    if (banned) return { guard: 'banned-content', pattern: banned.pattern, summary: summary };
+
+    return null;
   }
 
-  // Check if command is dangerous
-  function isDangerousCommand(text) {
-    const lowerText = text.toLowerCase();
-    return config.bannedCommands.some(cmd => 
-      lowerText.includes(cmd.toLowerCase())
-    );
+  // Report a guard block once per control and diff, the click is skipped every cycle
+  let reportedGuards = new WeakMap();
+
+  function reportGuardBlock(el, rule, text, tripped) {
+    const summary = tripped.summary;
+    const signature = tripped.guard + '|' + tripped.pattern + '|' + summary.fileCount + '|' + summary.lines + '|' + summary.files.join(',');
+    if (reportedGuards.get(el) === signature) return;
+    reportedGuards.set(el, signature);
+    stats.blocked++;
+    emitEvent({
+      type: 'blocked', action: 'acceptAll', reason: 'accept-guard', guard: tripped.guard, pattern: tripped.pattern,
+      rule: getRuleName(rule), buttonText: text, files: summary.files.slice(0, 20), fileCount: summary.fileCount, lines: summary.lines
+    });
+    console.log('[Auto Retry] ⚠️ Not accepting: ' + tripped.guard + ' guard (' + tripped.pattern + ')');
   }
 
   // Get all accessible documents (recursive iframe + shadow DOM traversal)
@@ -638,13 +1884,21 @@ export class CDPHandler {
     isProcessing = true;
 
     try {
+      scanCount++;
       const docs = getAllDocuments(document);
       for (const doc of docs) {
         clickRetryButtonsInDocument(doc);
         if (config.acceptAll) {
           clickAcceptAllInDocument(doc);
         }
+        if (config.autoContinue) {
+          clickContinueInDocument(doc);
+        }
+        if (config.commandApproval) {
+          clickCommandApprovalsInDocument(doc);
+        }
       }
+      pruneRetryTrackers(Date.now());
     } catch (e) {
       console.error('[Auto Retry] Error:', e);
     }
@@ -652,78 +1906,523 @@ export class CDPHandler {
     isProcessing = false;
   }
 
-  // Click Retry buttons in a document
+  // Click Retry buttons in a document (first matching rule decides per button)
+  // Adapter error panels are scanned first; the generic scan covers everything else
   function clickRetryButtonsInDocument(doc) {
-    const buttons = doc.querySelectorAll('button, [role="button"]');
-    
-    for (const btn of buttons) {
-      const text = btn.textContent?.trim() || '';
-      
-      if (text !== RETRY_PATTERN) continue;
-      
-      if (!isErrorContext(btn)) continue;
+    const handled = new Set();
+    clickAdapterRetryButtons(doc, handled);
 
-      const context = btn.closest('.terminal-command, .code-block, [class*="command"]');
-      if (context && isDangerousCommand(context.textContent || '')) {
-        console.log('[Auto Retry] ⚠️ Blocked dangerous command!');
-        stats.blocked++;
-        continue;
+    for (const rule of getRules('retry')) {
+      let buttons;
+      try { buttons = doc.querySelectorAll(rule.selector || 'button, [role="button"]'); } catch (e) { continue; }
+
+      for (const btn of buttons) {
+        if (handled.has(btn)) continue;
+        const text = btn.textContent?.trim() || '';
+        if (!rule.test(text) || isCommandPromptControl(btn)) continue;
+
+        const keywords = rule.contextKeywords || [];
+        const container = keywords.length > 0 ? findErrorContainer(btn, keywords) : (btn.parentElement || btn);
+        if (!container) continue;
+
+        handled.add(btn);
+        applyRetryRule(rule, btn, text, container);
       }
+    }
+  }
+
+  // Retry controls inside the adapters' error panels: the panel is known, so context keywords are not needed
+  function clickAdapterRetryButtons(doc, handled) {
+    const rules = getRules('retry');
+    for (const adapter of getAdapters()) {
+      for (const selector of adapter.errorContainers) {
+        for (const container of queryAll(doc, selector)) {
+          for (const btn of queryAll(container, adapter.retryControls || 'button, [role="button"]')) {
+            if (handled.has(btn)) continue;
+            const text = getControlText(btn);
+            const rule = rules.find(r => r.test(text) && (!r.selector || queryAll(doc, r.selector).includes(btn)));
+            if (!rule || isCommandPromptControl(btn)) continue;
+
+            handled.add(btn);
+            applyRetryRule(rule, btn, text, container, adapter);
+          }
+        }
+      }
+    }
+  }
+
+  // Retry buttons blocked by a banned command, with the pattern last reported for each
+  let reportedBans = new WeakMap();
+
+  // Retry clicks held back for a screenshot (timer -> retry tracker), cancelled on stop
+  let heldClicks = new Map();
+
+  // Apply a matched retry rule to a single button (located by an adapter, if given)
+  function applyRetryRule(rule, btn, text, container, adapter) {
+    if (rule.action === 'skip') return;
+    if (rule.action === 'notify') {
+      notifyMatch(btn, rule, text, getErrorSignature(container));
+      return;
+    }
+
+    const errorText = getErrorSignature(container);
+    const context = btn.closest('.terminal-command, .code-block, [class*="command"]');
+    const bannedPattern = context ? isDangerousCommand(context.textContent || '') : null;
+    if (bannedPattern) {
+      // The click is skipped every cycle; report once per button and pattern
+      if (reportedBans.get(btn) === bannedPattern) return;
+      reportedBans.set(btn, bannedPattern);
+      console.log('[Auto Retry] ⚠️ Blocked dangerous command! (matched ' + bannedPattern + ')');
+      stats.blocked++;
+      emitEvent({ type: 'blocked', action: 'retry', reason: 'banned-command', pattern: bannedPattern, rule: getRuleName(rule), buttonText: text, errorText: errorText });
+      return;
+    }
+
+    // Backoff between clicks on the same panel, give up after maxRetryAttempts
+    const now = Date.now();
+    const tracker = getRetryTracker(errorText, now, text, container, adapter);
+    if (tracker.exhausted || now < tracker.nextAllowed) return;
+
+    // Category policy: "never" leaves the error alone, "once" allows a single attempt
+    if (tracker.policy === 'never') {
+      tracker.exhausted = true;
+      stats.blocked++;
+      emitEvent({ type: 'blocked', action: 'retry', reason: 'non-retryable', category: tracker.category, rule: getRuleName(rule), buttonText: text, errorText: tracker.message });
+      console.log('[Auto Retry] ⛔ Not retrying ' + tracker.category + ' error, leaving it for a human');
+      return;
+    }
+
+    const maxAttempts = tracker.policy === 'once' ? 1 : config.maxRetryAttempts;
+    if (tracker.attempts >= maxAttempts) {
+      tracker.exhausted = true;
+      stats.circuitOpen++;
+      emitEvent({ type: 'circuit-open', action: 'retry', category: tracker.category, rule: getRuleName(rule), buttonText: text, errorText: tracker.message, attempts: tracker.attempts });
+      console.log('[Auto Retry] ⛔ Giving up after ' + tracker.attempts + ' attempts, leaving error for a human');
+      return;
+    }
+
+    if (config.dryRun) {
+      // Each candidate is reported once; only copy the panel for that report
+      if (reportedCandidates.has(btn)) return;
+      const snapshot = config.captureSnapshots ? captureSnapshot(container) : undefined;
+      reportWouldClick(btn, rule, text, { category: tracker.category, errorText: tracker.message, attempts: tracker.attempts + 1, snapshot: snapshot });
+      return;
+    }
 
+    const snapshot = config.captureSnapshots ? captureSnapshot(container) : undefined;
+
+    const click = () => {
+      flashClick(btn, 'clicked ' + text + ' (' + (tracker.attempts + 1) + '/' + maxAttempts + ')', 'clicked');
       btn.click();
       stats.clicks++;
-      console.log('[Auto Retry] ✅ Clicked Retry! (Total: ' + stats.clicks + ')');
+      tracker.attempts++;
+      tracker.nextAllowed = Date.now() + getBackoffDelay(tracker.attempts);
+      stats.categories[tracker.category] = (stats.categories[tracker.category] || 0) + 1;
+      emitEvent({ type: 'clicked', action: 'retry', category: tracker.category, rule: getRuleName(rule), buttonText: text, errorText: tracker.message, attempts: tracker.attempts, adapter: adapter ? adapter.id : undefined, snapshot: snapshot });
+      console.log('[Auto Retry] ✅ Clicked Retry! [' + tracker.category + '] (Attempt ' + tracker.attempts + '/' + maxAttempts + ', Total: ' + stats.clicks + ')');
+    };
+
+    if (snapshot && config.captureScreenshots && typeof window.${EVENT_BINDING} === 'function') {
+      // Ask the handler for a screenshot while the panel is still on screen; the click and its event follow.
+      // Nothing is recorded if the button is gone, dry run was switched on or the script was stopped by then
+      snapshot.captureId = ++captureCount;
+      emitEvent({ type: 'capture', captureId: snapshot.captureId, rect: snapshot.rect });
+      tracker.nextAllowed = Infinity;
+      const timer = setTimeout(() => {
+        heldClicks.delete(timer);
+        if (btn.isConnected && !config.dryRun) click();
+        else tracker.nextAllowed = 0;
+      }, SCREENSHOT_DELAY);
+      heldClicks.set(timer, tracker);
+    } else {
+      click();
+    }
+  }
+
+  // Sanitized copy of an error panel for post-mortem review: its text, trimmed markup without scripts,
+  // media, form fields or non-structural attributes, and its rect in the top-level viewport
+  const SNAPSHOT_MAX_TEXT = 2000;
+  const SNAPSHOT_MAX_HTML = 8000;
+  const SNAPSHOT_DROP = 'script, style, link, meta, noscript, template, iframe, frame, object, embed, svg, canvas, img, picture, video, audio, input, textarea, select';
+  const SNAPSHOT_ATTRIBUTES = ['class', 'id', 'role', 'title', 'aria-label'];
+  const SCREENSHOT_DELAY = 300;
+  let captureCount = 0;
+
+  function captureSnapshot(container) {
+    try {
+      const clone = container.cloneNode(true);
+      for (const el of queryAll(clone, SNAPSHOT_DROP)) el.remove();
+      for (const el of [clone].concat(queryAll(clone, '*'))) {
+        for (const attr of Array.from(el.attributes)) {
+          if (!SNAPSHOT_ATTRIBUTES.includes(attr.name)) el.removeAttribute(attr.name);
+        }
+      }
+      let html = clone.outerHTML;
+      if (html.length > SNAPSHOT_MAX_HTML) html = html.slice(0, SNAPSHOT_MAX_HTML) + '<!-- trimmed -->';
+      const text = (container.innerText || container.textContent || '').replace(/\\s+/g, ' ').trim().slice(0, SNAPSHOT_MAX_TEXT);
+      return { text: text, html: html, rect: getViewportRect(container) };
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  // Bounding rect of an element, offset by the iframes it is nested in
+  function getViewportRect(el) {
+    const rect = el.getBoundingClientRect();
+    let x = rect.left;
+    let y = rect.top;
+    let win = el.ownerDocument.defaultView;
+    while (win && win !== window && win.frameElement) {
+      const frameRect = win.frameElement.getBoundingClientRect();
+      x += frameRect.left;
+      y += frameRect.top;
+      win = win.parent;
     }
+    return { x: Math.max(0, Math.round(x)), y: Math.max(0, Math.round(y)), width: Math.round(rect.width), height: Math.round(rect.height) };
   }
 
-  // Click "Accept All" elements in a document
+  // Click "Accept All" elements in a document (first matching rule decides)
+  // Adapter Accept controls are tried first; the generic text scan is the fallback
   function clickAcceptAllInDocument(doc) {
-    // Strategy 1: Find by exact text in any clickable/text element
-    const allElements = doc.querySelectorAll('span, div, button, a, [role="button"]');
-    
-    for (const el of allElements) {
-      // Use innerText (visible text only) with fallback to textContent
-      let text = '';
-      try { text = (el.innerText || el.textContent || '').trim(); } catch(e) { continue; }
-      
-      // Match: exact "Accept All" or contains it for elements with icons
-      if (text !== ACCEPT_ALL_PATTERN && text !== 'Accept all') continue;
-      
-      // Skip if this element contains too much text (it's a container, not a button)
-      if (text.length > 30) continue;
-      
-      // Visibility check
-      try {
-        const style = window.getComputedStyle(el);
-        const rect = el.getBoundingClientRect();
-        if (style.display === 'none' || style.visibility === 'hidden' || 
-            style.opacity === '0' || rect.width === 0 || rect.height === 0) continue;
-      } catch (e) { continue; }
-      
-      // Find the best element to click: prefer closest interactive ancestor
-      let clickTarget = el;
-      try {
-        const interactiveParent = el.closest('button, [role="button"], a, [tabindex]');
-        if (interactiveParent) clickTarget = interactiveParent;
-      } catch(e) {}
-      
-      // Click with multiple methods for reliability
-      try { clickTarget.click(); } catch(e) {}
-      try {
-        clickTarget.dispatchEvent(new MouseEvent('click', {
-          view: window, bubbles: true, cancelable: true
-        }));
-      } catch(e) {}
-      // Also try pointer events (some frameworks use these)
+    if (clickAdapterAcceptControls(doc)) return;
+
+    for (const rule of getRules('acceptAll')) {
+      // Default: find by text in any clickable/text element
+      let allElements;
+      try { allElements = doc.querySelectorAll(rule.selector || 'span, div, button, a, [role="button"]'); } catch (e) { continue; }
+
+      for (const el of allElements) {
+        // Use innerText (visible text only) with fallback to textContent
+        let text = '';
+        try { text = (el.innerText || el.textContent || '').trim(); } catch(e) { continue; }
+
+        // Skip if this element contains too much text (it's a container, not a button)
+        if (text.length > 30) continue;
+
+        if (!rule.test(text)) continue;
+
+        const keywords = rule.contextKeywords || [];
+        if (keywords.length > 0 && !findErrorContainer(el, keywords)) continue;
+
+        if (!isVisible(el)) continue;
+
+        acceptCandidate(el, rule, text);
+        return; // Only click once per document per cycle
+      }
+    }
+  }
+
+  // Accept controls of the page's adapters; returns true if one matched a rule
+  function clickAdapterAcceptControls(doc) {
+    const rules = getRules('acceptAll');
+    for (const adapter of getAdapters()) {
+      if (!adapter.acceptControls) continue;
+      for (const el of queryAll(doc, adapter.acceptControls)) {
+        const text = getControlText(el);
+        const rule = rules.find(r => ruleMatchesControl(r, el, text));
+        if (!rule || !isVisible(el)) continue;
+
+        acceptCandidate(el, rule, text, adapter);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  function isVisible(el) {
+    try {
+      const style = window.getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      return !(style.display === 'none' || style.visibility === 'hidden' ||
+        style.opacity === '0' || rect.width === 0 || rect.height === 0);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  // Apply a matched Accept All rule to a visible element (located by an adapter, if given)
+  function acceptCandidate(el, rule, text, adapter) {
+    if (rule.action === 'skip') return;
+    if (rule.action === 'notify') {
+      notifyMatch(el, rule, text, '');
+      return;
+    }
+
+    const clickTarget = getClickTarget(el);
+    const tripped = checkAcceptAllGuards(clickTarget);
+    if (tripped) {
+      reportGuardBlock(clickTarget, rule, text, tripped);
+      return;
+    }
+
+    if (config.dryRun) {
+      reportWouldClick(clickTarget, rule, text, {});
+      return;
+    }
+
+    flashClick(clickTarget, 'clicked ' + text, 'clicked');
+    dispatchClick(clickTarget);
+    stats.acceptAllClicks++;
+    emitEvent({ type: 'clicked', action: 'acceptAll', rule: getRuleName(rule), buttonText: text, adapter: adapter ? adapter.id : undefined });
+    console.log('[Auto Retry] ✅ Clicked Accept All! (Total: ' + stats.acceptAllClicks + ') Tag: ' + el.tagName + ' Text: "' + text + '"');
+  }
+
+  // Find the best element to click: prefer closest interactive ancestor
+  function getClickTarget(el) {
+    try {
+      return el.closest('button, [role="button"], a, [tabindex]') || el;
+    } catch(e) {
+      return el;
+    }
+  }
+
+  // Click with multiple methods for reliability
+  function dispatchClick(clickTarget) {
+    try { clickTarget.click(); } catch(e) {}
+    try {
+      clickTarget.dispatchEvent(new MouseEvent('click', {
+        view: window, bubbles: true, cancelable: true
+      }));
+    } catch(e) {}
+    // Also try pointer events (some frameworks use these)
+    try {
+      clickTarget.dispatchEvent(new PointerEvent('pointerdown', { bubbles: true }));
+      clickTarget.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
+    } catch(e) {}
+  }
+
+  // In-page overlay: an outline and a label next to an element, drawn in a closed shadow root
+  // so the scans (and the text of error panels) never see it
+  const OVERLAY_COLORS = { clicked: '#2ea043', 'would-click': '#d29922', candidate: '#1f6feb', inactive: '#6e7681' };
+  const FLASH_DURATION = 1500;
+  let candidateOverlays = [];
+  let candidateTimer = null;
+
+  function drawOverlay(el, label, color) {
+    const doc = el.ownerDocument;
+    const parent = doc && (doc.body || doc.documentElement);
+    if (!parent) return null;
+
+    const host = doc.createElement('div');
+    host.setAttribute('data-auto-retry-overlay', label);
+    host.style.cssText = 'position:fixed;top:0;left:0;width:0;height:0;z-index:2147483647;pointer-events:none;';
+    let root = host;
+    try { root = host.attachShadow({ mode: 'closed' }); } catch (e) {}
+
+    const rect = el.getBoundingClientRect();
+    const outline = doc.createElement('div');
+    outline.style.cssText = 'position:fixed;box-sizing:border-box;border:2px solid ' + color + ';border-radius:4px;' +
+      'left:' + (rect.left - 2) + 'px;top:' + (rect.top - 2) + 'px;width:' + (rect.width + 4) + 'px;height:' + (rect.height + 4) + 'px;';
+    const toast = doc.createElement('div');
+    toast.textContent = label;
+    toast.style.cssText = 'position:fixed;left:' + Math.max(0, rect.left) + 'px;top:' + (rect.top < 28 ? rect.bottom + 4 : rect.top - 26) + 'px;' +
+      'padding:2px 6px;border-radius:4px;background:' + color + ';color:#fff;font:11px/18px sans-serif;white-space:nowrap;';
+    root.appendChild(outline);
+    root.appendChild(toast);
+    parent.appendChild(host);
+    return host;
+  }
+
+  // Flash an element about to be clicked ("Auto Retry: clicked Retry (3/5)") when highlightClicks is on
+  function flashClick(el, label, kind) {
+    if (!config.highlightClicks) return;
+    try {
+      const host = drawOverlay(el, 'Auto Retry: ' + label, OVERLAY_COLORS[kind]);
+      if (host) setTimeout(() => host.remove(), FLASH_DURATION);
+    } catch (e) {}
+  }
+
+  function clearCandidateOverlays() {
+    if (candidateTimer) {
+      clearTimeout(candidateTimer);
+      candidateTimer = null;
+    }
+    for (const host of candidateOverlays) host.remove();
+    candidateOverlays = [];
+  }
+
+  // Command approval prompts: each prompt is decided once (again after the command lists or dry run change),
+  // and an approved prompt is never clicked twice
+  const COMMAND_SELECTOR = 'pre, code, .terminal-command, [class*="command-text"]';
+  let approvedPrompts = new WeakSet();
+  let decidedPrompts = new WeakSet();
+  let decidedWith = [];
+
+  // Proposed command next to an approval control: the first code block in the nearest ancestor that has one
+  function findProposedCommand(btn) {
+    let el = btn.parentElement;
+    for (let i = 0; i < 5 && el; i++) {
+      for (const candidate of queryAll(el, COMMAND_SELECTOR)) {
+        if (candidate.contains(btn)) continue;
+        const command = (candidate.textContent || '').replace(/^\\s*\\$\\s+/, '').trim();
+        if (command) return command;
+      }
+      el = el.parentElement;
+    }
+    return '';
+  }
+
+  // Controls of a command approval prompt (a command rule matches and a command is shown next to them).
+  // Only decideCommand may click these, so retry and continue rules cannot get around the command lists
+  function isCommandPromptControl(el) {
+    const text = getControlText(el);
+    return text.length <= 30 && getRules('command').some(rule => ruleMatchesControl(rule, el, text)) && !!findProposedCommand(el);
+  }
+
+  // Approve terminal command prompts whose command is on the approval list (first matching rule decides per control)
+  function clickCommandApprovalsInDocument(doc) {
+    const lists = [config.approvedCommands, config.bannedCommands, config.allowedCommands, config.dryRun];
+    if (lists.some((list, i) => list !== decidedWith[i])) {
+      decidedWith = lists;
+      decidedPrompts = new WeakSet();
+    }
+
+    for (const rule of getRules('command')) {
+      let controls;
+      try { controls = doc.querySelectorAll(rule.selector || 'button, [role="button"]'); } catch (e) { continue; }
+
+      for (const btn of controls) {
+        if (approvedPrompts.has(btn) || decidedPrompts.has(btn)) continue;
+        const text = getControlText(btn);
+        if (text.length > 30 || !rule.test(text)) continue;
+
+        const keywords = rule.contextKeywords || [];
+        if (keywords.length > 0 && !findErrorContainer(btn, keywords)) continue;
+        const command = findProposedCommand(btn);
+        if (!command || !isVisible(btn)) continue;
+
+        decidedPrompts.add(btn);
+        decideCommand(rule, btn, text, command);
+      }
+    }
+  }
+
+  // Apply a matched command rule: the blocklist wins, then the command must be on the approval list
+  function decideCommand(rule, btn, text, command) {
+    if (rule.action === 'skip') return;
+    if (rule.action === 'notify') {
+      notifyMatch(btn, rule, text, command);
+      return;
+    }
+
+    const bannedPattern = isDangerousCommand(command);
+    if (bannedPattern) {
+      stats.blocked++;
+      emitEvent({ type: 'blocked', action: 'command', reason: 'banned-command', pattern: bannedPattern, rule: getRuleName(rule), buttonText: text, command: command });
+      console.log('[Auto Retry] ⚠️ Not approving banned command (matched ' + bannedPattern + '): ' + command);
+      return;
+    }
+
+    const approvedPattern = isApprovedCommand(command);
+    if (!approvedPattern) {
+      stats.blocked++;
+      emitEvent({ type: 'blocked', action: 'command', reason: 'not-approved', rule: getRuleName(rule), buttonText: text, command: command });
+      console.log('[Auto Retry] ✋ Command is not on the approval list: ' + command);
+      return;
+    }
+
+    if (config.dryRun) {
+      reportWouldClick(btn, rule, text, { command: command, pattern: approvedPattern });
+      return;
+    }
+
+    approvedPrompts.add(btn);
+    flashClick(btn, 'approved ' + command, 'clicked');
+    dispatchClick(getClickTarget(btn));
+    stats.commandApprovals++;
+    emitEvent({ type: 'clicked', action: 'command', rule: getRuleName(rule), buttonText: text, command: command, pattern: approvedPattern });
+    console.log('[Auto Retry] ✅ Approved command (matched ' + approvedPattern + '): ' + command);
+  }
+
+  // Continue clicks in a row on this page; real user input resets them (someone is watching again)
+  let consecutiveContinues = 0;
+  let continueLimitReported = false;
+  let nextContinueAllowed = 0;
+  let listeningForInput = false;
+
+  // Real input is also reported to the handler, so typing or clicking in an agent chat counts as activity
+  // for the scheduler's idle detection
+  const ACTIVITY_REPORT_INTERVAL = 10000;
+  let lastActivityReport = 0;
+
+  function onUserInput(e) {
+    if (!e.isTrusted) return;
+    consecutiveContinues = 0;
+    continueLimitReported = false;
+
+    const now = Date.now();
+    if (now - lastActivityReport >= ACTIVITY_REPORT_INTERVAL && typeof window.${EVENT_BINDING} === 'function') {
+      lastActivityReport = now;
+      emitEvent({ type: 'activity' });
+    }
+  }
+
+  function listenForInput(listen) {
+    if (listen === listeningForInput) return;
+    listeningForInput = listen;
+    for (const type of ['keydown', 'pointerdown']) {
       try {
-        clickTarget.dispatchEvent(new PointerEvent('pointerdown', { bubbles: true }));
-        clickTarget.dispatchEvent(new PointerEvent('pointerup', { bubbles: true }));
-      } catch(e) {}
-      
-      stats.acceptAllClicks++;
-      console.log('[Auto Retry] ✅ Clicked Accept All! (Total: ' + stats.acceptAllClicks + ') Tag: ' + el.tagName + ' Text: "' + text + '"');
-      return; // Only click once per document per cycle
+        if (listen) document.addEventListener(type, onUserInput, true);
+        else document.removeEventListener(type, onUserInput, true);
+      } catch (e) {}
+    }
+  }
+
+  // Click "Continue" prompts shown when an agent pauses at a tool-call or iteration limit (first matching rule decides)
+  function clickContinueInDocument(doc) {
+    for (const rule of getRules('continue')) {
+      let elements;
+      try { elements = doc.querySelectorAll(rule.selector || 'button, a, [role="button"]'); } catch (e) { continue; }
+
+      for (const el of elements) {
+        const text = getControlText(el);
+        if (text.length > 30 || !rule.test(text) || isCommandPromptControl(el)) continue;
+
+        const keywords = rule.contextKeywords || [];
+        const container = keywords.length > 0 ? findErrorContainer(el, keywords) : (el.parentElement || el);
+        if (!container || !isVisible(el)) continue;
+
+        continueCandidate(el, rule, text, container);
+        return; // Only click once per document per cycle
+      }
+    }
+  }
+
+  // Apply a matched Continue rule: wait for the agent to resume, stop at maxConsecutiveContinues
+  function continueCandidate(el, rule, text, container) {
+    if (rule.action === 'skip') return;
+    if (rule.action === 'notify') {
+      notifyMatch(el, rule, text, getErrorSignature(container));
+      return;
+    }
+
+    const now = Date.now();
+    if (now < nextContinueAllowed) return;
+
+    const clickTarget = getClickTarget(el);
+    const message = extractErrorMessage(container);
+    if (consecutiveContinues >= config.maxConsecutiveContinues) {
+      if (!continueLimitReported) {
+        continueLimitReported = true;
+        stats.blocked++;
+        emitEvent({ type: 'blocked', action: 'continue', reason: 'continue-limit', rule: getRuleName(rule), buttonText: text, errorText: message, attempts: consecutiveContinues });
+        console.log('[Auto Retry] ⛔ Not continuing after ' + consecutiveContinues + ' continues in a row, waiting for you');
+      }
+      return;
+    }
+
+    if (config.dryRun) {
+      reportWouldClick(clickTarget, rule, text, { errorText: message });
+      return;
     }
+
+    flashClick(clickTarget, 'clicked ' + text + ' (' + (consecutiveContinues + 1) + '/' + config.maxConsecutiveContinues + ')', 'clicked');
+    dispatchClick(clickTarget);
+    consecutiveContinues++;
+    nextContinueAllowed = now + config.cooldown;
+    stats.continueClicks++;
+    emitEvent({ type: 'clicked', action: 'continue', rule: getRuleName(rule), buttonText: text, errorText: message, attempts: consecutiveContinues });
+    console.log('[Auto Retry] ✅ Clicked Continue! (' + consecutiveContinues + '/' + config.maxConsecutiveContinues + ' in a row)');
   }
 
   // Debounce helper (PERFORMANCE FIX: 500ms to avoid thrashing on rapid DOM mutations)
@@ -800,8 +2499,10 @@ export class CDPHandler {
 
     if (pollTimer) clearInterval(pollTimer);
     pollTimer = setInterval(findAndClickButtons, config.pollInterval);
+    listenForInput(true);
 
-    console.log('[Auto Retry] ✅ Started with interval: ' + config.pollInterval + 'ms' + (config.acceptAll ? ' [Accept All ON]' : ''));
+    console.log('[Auto Retry] ✅ Started with interval: ' + config.pollInterval + 'ms' + (config.acceptAll ? ' [Accept All ON]' : '') + (config.autoContinue ? ' [Auto Continue ON]' : '') + (config.commandApproval ? ' [Command approval ON]' : '') + (config.dryRun ? ' [Dry run]' : ''));
+    emitHealth();
   };
 
   // Stop auto-retry (PERFORMANCE FIX - now cleans up observers and resets loaded flag)
@@ -814,10 +2515,82 @@ export class CDPHandler {
       clearTimeout(debounceTimer);
       debounceTimer = null;
     }
+    for (const [timer, tracker] of heldClicks) {
+      clearTimeout(timer);
+      tracker.nextAllowed = 0;
+    }
+    heldClicks.clear();
     cleanupObservers();
+    clearCandidateOverlays();
+    listenForInput(false);
     // Reset loaded flag to allow re-injection after restart
     window.__autoRetryLoaded = false;
     console.log('[Auto Retry] Stopped and reset');
+    emitHealth();
+  };
+
+  // Report observer/timer state to the extension
+  function emitHealth() {
+    emitEvent({
+      type: 'health',
+      health: { observerCount: observers.length, pollTimerActive: !!pollTimer, retryTrackers: retryTrackers.size }
+    });
+  }
+
+  // Apply runtime config changes, restarting the poll timer if the interval changed
+  window.__autoRetryApplyConfig = function(changes) {
+    const previousInterval = config.pollInterval;
+    Object.assign(config, changes);
+    if (pollTimer && config.pollInterval !== previousInterval) {
+      clearInterval(pollTimer);
+      pollTimer = setInterval(findAndClickButtons, config.pollInterval);
+      console.log('[Auto Retry] Poll interval changed to ' + config.pollInterval + 'ms');
+    }
+  };
+
+  // Outline every control a rule matches right now with the rule name and what would happen to it (debug aid)
+  // Like the scans, the first matching rule decides per control; outlines are removed after durationMs
+  const CANDIDATE_SELECTORS = { retry: 'button, [role="button"]', acceptAll: 'span, div, button, a, [role="button"]', continue: 'button, a, [role="button"]', command: 'button, [role="button"]' };
+
+  window.__autoRetryHighlightCandidates = function(durationMs) {
+    clearCandidateOverlays();
+    const enabled = { retry: true, acceptAll: config.acceptAll, continue: config.autoContinue, command: config.commandApproval };
+    const seen = new Set();
+    const candidates = [];
+
+    for (const doc of getAllDocuments(document)) {
+      for (const type of Object.keys(CANDIDATE_SELECTORS)) {
+        for (const rule of getRules(type)) {
+          for (const el of queryAll(doc, rule.selector || CANDIDATE_SELECTORS[type])) {
+            const text = getControlText(el);
+            if (text.length > 30 || !rule.test(text)) continue;
+            // Wrappers around a matching label are the same control
+            if (Array.from(el.children).some(child => getControlText(child) === text)) continue;
+            const target = getClickTarget(el);
+            if (seen.has(target)) continue;
+            seen.add(target);
+
+            const keywords = rule.contextKeywords || [];
+            let status = 'match';
+            if (rule.action !== 'click') status = rule.action;
+            else if (!enabled[type]) status = 'off';
+            else if (keywords.length > 0 && !findErrorContainer(el, keywords)) status = 'no context';
+            else if (type === 'command' && !findProposedCommand(el)) status = 'no command';
+            else if (!isVisible(target)) status = 'hidden';
+
+            candidates.push({ type: type, rule: getRuleName(rule), buttonText: text, element: describeElement(target), status: status });
+            if (status === 'hidden') continue;
+            try {
+              const host = drawOverlay(target, getRuleName(rule) + ': ' + status, OVERLAY_COLORS[status === 'match' ? 'candidate' : 'inactive']);
+              if (host) candidateOverlays.push(host);
+            } catch (e) {}
+          }
+        }
+      }
+    }
+
+    if (durationMs > 0) candidateTimer = setTimeout(clearCandidateOverlays, durationMs);
+    return candidates;
   };
 
   // Get stats
@@ -827,7 +2600,14 @@ export class CDPHandler {
 
   // Reset stats
   window.__autoRetryResetStats = function() {
-    stats = { clicks: 0, blocked: 0, acceptAllClicks: 0 };
+    stats = { clicks: 0, blocked: 0, acceptAllClicks: 0, circuitOpen: 0, wouldClick: 0, continueClicks: 0, commandApprovals: 0, categories: {} };
+  };
+
+  // Hand pending events over to the extension
+  window.__autoRetryDrainEvents = function() {
+    const events = pendingEvents;
+    pendingEvents = [];
+    return events;
   };
 
   // Get health info (for debugging)
@@ -837,6 +2617,8 @@ export class CDPHandler {
       observerSetupDone: observerSetupDone,
       pollTimerActive: !!pollTimer,
       acceptAll: config.acceptAll,
+      dryRun: config.dryRun,
+      retryTrackers: retryTrackers.size,
       stats: stats
     };
   };
@@ -0,0 +1,147 @@
+/**
+ * Dashboard - Aggregates audit log events for the side panel's dashboard tab
+ *
+ * Pure functions over CDPEvents (no VS Code or file access) so the numbers are easy to test.
+ */
+import { CDPEvent } from './CDPHandler';
+
+export type DashboardRange = 'hour' | 'day' | 'week';
+
+// Length and bucket count of each range
+const RANGES: Record<DashboardRange, { length: number; buckets: number }> = {
+  hour: { length: 60 * 60 * 1000, buckets: 12 },
+  day: { length: 24 * 60 * 60 * 1000, buckets: 24 },
+  week: { length: 7 * 24 * 60 * 60 * 1000, buckets: 28 }
+};
+
+const TOP_ERRORS = 5;
+const TOP_PAGES = 10;
+
+export interface DashboardBucket {
+  start: number;
+  retries: number;
+  accepts: number;
+  blocked: number;
+}
+
+export interface DashboardPage {
+  title: string;
+  retries: number;
+  accepts: number;
+  blocked: number;
+  circuitOpen: number;
+}
+
+export interface DashboardData {
+  range: DashboardRange;
+  since: number;
+  totals: { retries: number; accepts: number; continues: number; commands: number; blocked: number; circuitOpen: number; wouldClick: number };
+  buckets: DashboardBucket[];
+  blockedReasons: Record<string, number>;
+  topErrors: { message: string; count: number }[];
+  pages: DashboardPage[];
+  meanTimeBetweenFailures?: number;  // ms between retried errors (first retry of each); undefined with fewer than two
+  longestUnattended?: { duration: number; clicks: number };  // Clicks in a row without an event that needed a human
+}
+
+/**
+ * Start of a range ending now
+ */
+export function getRangeStart(range: DashboardRange, now: number = Date.now()): number {
+  return now - RANGES[range].length;
+}
+
+// Events after which a human had to step in
+function needsHuman(event: CDPEvent): boolean {
+  return event.type === 'circuit-open' ||
+    (event.type === 'blocked' && ['non-retryable', 'accept-guard', 'continue-limit', 'not-approved'].includes(event.reason ?? ''));
+}
+
+/**
+ * Aggregate events (oldest first) into dashboard data for a range ending now
+ */
+export function computeDashboard(events: CDPEvent[], range: DashboardRange, now: number = Date.now()): DashboardData {
+  const since = getRangeStart(range, now);
+  const bucketLength = RANGES[range].length / RANGES[range].buckets;
+  const buckets: DashboardBucket[] = Array.from({ length: RANGES[range].buckets }, (_, i) => ({
+    start: since + i * bucketLength, retries: 0, accepts: 0, blocked: 0
+  }));
+  const totals = { retries: 0, accepts: 0, continues: 0, commands: 0, blocked: 0, circuitOpen: 0, wouldClick: 0 };
+  const blockedReasons: Record<string, number> = {};
+  const errors = new Map<string, number>();
+  const pages = new Map<string, DashboardPage>();
+  const failureTimes: number[] = [];
+  let streak: { start: number; end: number; clicks: number } | undefined;
+  let longest: { duration: number; clicks: number } | undefined;
+
+  const endStreak = () => {
+    if (streak && (!longest || streak.end - streak.start > longest.duration)) {
+      longest = { duration: streak.end - streak.start, clicks: streak.clicks };
+    }
+    streak = undefined;
+  };
+
+  for (const event of events) {
+    if (event.timestamp < since || event.timestamp > now) continue;
+
+    const bucket = buckets[Math.min(Math.floor((event.timestamp - since) / bucketLength), buckets.length - 1)];
+    const title = event.pageTitle || event.pageId;
+    const page = pages.get(title) ?? { title, retries: 0, accepts: 0, blocked: 0, circuitOpen: 0 };
+    pages.set(title, page);
+
+    if (event.type === 'clicked') {
+      if (event.action === 'acceptAll') {
+        totals.accepts++;
+        bucket.accepts++;
+        page.accepts++;
+      } else if (event.action === 'continue') {
+        totals.continues++;
+      } else if (event.action === 'command') {
+        totals.commands++;
+      } else {
+        totals.retries++;
+        bucket.retries++;
+        page.retries++;
+        // Backoff retries of the same error are not new failures
+        if ((event.attempts ?? 1) === 1) failureTimes.push(event.timestamp);
+        const message = (event.errorText || '').trim().slice(0, 120) || '(no error text)';
+        errors.set(message, (errors.get(message) ?? 0) + 1);
+      }
+      streak = streak ?? { start: event.timestamp, end: event.timestamp, clicks: 0 };
+      streak.end = event.timestamp;
+      streak.clicks++;
+    } else if (event.type === 'blocked') {
+      totals.blocked++;
+      bucket.blocked++;
+      page.blocked++;
+      const reason = event.guard ?? event.reason ?? 'unknown';
+      blockedReasons[reason] = (blockedReasons[reason] ?? 0) + 1;
+    } else if (event.type === 'circuit-open') {
+      totals.circuitOpen++;
+      page.circuitOpen++;
+    } else if (event.type === 'would-click') {
+      totals.wouldClick++;
+    }
+
+    if (needsHuman(event)) endStreak();
+  }
+  endStreak();
+
+  const gaps = failureTimes.slice(1).map((time, i) => time - failureTimes[i]);
+  return {
+    range,
+    since,
+    totals,
+    buckets,
+    blockedReasons,
+    topErrors: Array.from(errors, ([message, count]) => ({ message, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_ERRORS),
+    pages: Array.from(pages.values())
+      .filter(p => p.retries + p.accepts + p.blocked + p.circuitOpen > 0)
+      .sort((a, b) => (b.retries + b.accepts + b.blocked) - (a.retries + a.accepts + a.blocked))
+      .slice(0, TOP_PAGES),
+    meanTimeBetweenFailures: gaps.length > 0 ? Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length) : undefined,
+    longestUnattended: longest
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * ErrorSnapshots - Captured context of retried errors for post-mortem review
+ *
+ * Each retry event that carries a snapshot (see captureSnapshots) is stored as one JSON file in the
+ * snapshot directory; the oldest files are pruned beyond a cap. Token-looking strings are redacted
+ * from the text and markup before anything is written.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { CDPEvent } from './CDPHandler';
+
+const DEFAULT_MAX_SNAPSHOTS = 50;
+
+export interface ErrorSnapshot {
+  id: string;
+  timestamp: number;
+  type: CDPEvent['type'];  // clicked, or would-click in dry run
+  pageId: string;
+  pageTitle?: string;
+  category?: string;
+  buttonText?: string;
+  attempts?: number;
+  text: string;
+  html: string;
+  screenshot?: string;  // Base64 JPEG clip of the error panel
+}
+
+// Listed without the screenshot, which is loaded on demand
+export type ErrorSnapshotSummary = Omit<ErrorSnapshot, 'screenshot'> & { hasScreenshot: boolean };
+
+export interface ErrorSnapshotOptions {
+  maxSnapshots?: number;
+}
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b(sk|pk|rk)-[A-Za-z0-9_-]{16,}/g, '[redacted]'],
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}/g, '[redacted]'],
+  [/\bAKIA[0-9A-Z]{16}\b/g, '[redacted]'],
+  [/\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g, '[redacted]'],
+  [/\b(bearer)\s+[A-Za-z0-9._~+/-]{8,}=*/gi, '$1 [redacted]'],
+  [/\b(api[_-]?key|token|password|passwd|secret)(["']?\s*[:=]\s*["']?)[^\s"'<>&,;]+/gi, '$1$2[redacted]']
+];
+
+/**
+ * Replace API keys, tokens, JWTs and key=value secrets with [redacted]
+ */
+export function redactSecrets(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+export class ErrorSnapshotStore {
+  private readonly dir: string;
+  private readonly maxSnapshots: number;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private sequence = 0;
+
+  constructor(dir: string, options: ErrorSnapshotOptions = {}) {
+    this.dir = dir;
+    this.maxSnapshots = options.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS;
+  }
+
+  /**
+   * Store the snapshot an event carries, if any (writes are serialized)
+   */
+  add(event: CDPEvent): Promise<void> {
+    if (!event.snapshot) return this.writeQueue;
+
+    // Zero-padded so file names sort by time
+    const id = `${String(event.timestamp).padStart(15, '0')}-${String(this.sequence++ % 1000).padStart(3, '0')}`;
+    const snapshot: ErrorSnapshot = {
+      id,
+      timestamp: event.timestamp,
+      type: event.type,
+      pageId: event.pageId,
+      pageTitle: event.pageTitle,
+      category: event.category,
+      buttonText: event.buttonText,
+      attempts: event.attempts,
+      text: redactSecrets(event.snapshot.text),
+      html: redactSecrets(event.snapshot.html),
+      screenshot: event.snapshot.screenshot
+    };
+
+    this.writeQueue = this.writeQueue
+      .then(() => this.write(snapshot))
+      .catch(e => console.error(`[ErrorSnapshots] Failed to write snapshot: ${e.message}`));
+    return this.writeQueue;
+  }
+
+  /**
+   * Stored snapshots, newest first, without screenshots
+   */
+  async list(): Promise<ErrorSnapshotSummary[]> {
+    const snapshots = await this.readAll();
+    return snapshots.reverse().map(({ screenshot, ...snapshot }) => ({ ...snapshot, hasScreenshot: !!screenshot }));
+  }
+
+  /**
+   * A stored snapshot with its screenshot
+   */
+  async get(id: string): Promise<ErrorSnapshot | undefined> {
+    await this.writeQueue;
+    if (!/^[\d-]+$/.test(id)) return undefined;
+    try {
+      return JSON.parse(await fs.promises.readFile(path.join(this.dir, `${id}.json`), 'utf8'));
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write every stored snapshot (oldest first) to one JSON file, returning how many were written
+   */
+  async exportTo(file: string): Promise<number> {
+    const snapshots = await this.readAll();
+    await fs.promises.writeFile(file, JSON.stringify(snapshots, null, 2), 'utf8');
+    return snapshots.length;
+  }
+
+  /**
+   * Delete every stored snapshot
+   */
+  async clear(): Promise<void> {
+    await this.writeQueue;
+    for (const name of await this.listFiles()) {
+      await fs.promises.rm(path.join(this.dir, name), { force: true });
+    }
+  }
+
+  private async readAll(): Promise<ErrorSnapshot[]> {
+    await this.writeQueue;
+
+    const snapshots: ErrorSnapshot[] = [];
+    for (const name of await this.listFiles()) {
+      try {
+        snapshots.push(JSON.parse(await fs.promises.readFile(path.join(this.dir, name), 'utf8')));
+      } catch (e) {
+        // Skip partial or corrupt files
+      }
+    }
+    return snapshots;
+  }
+
+  private async write(snapshot: ErrorSnapshot): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(path.join(this.dir, `${snapshot.id}.json`), JSON.stringify(snapshot), 'utf8');
+
+    const files = await this.listFiles();
+    for (const name of files.slice(0, Math.max(0, files.length - this.maxSnapshots))) {
+      await fs.promises.rm(path.join(this.dir, name), { force: true });
+    }
+  }
+
+  /**
+   * Snapshot file names, oldest first
+   */
+  private async listFiles(): Promise<string[]> {
+    try {
+      return (await fs.promises.readdir(this.dir)).filter(name => name.endsWith('.json')).sort();
+    } catch (e) {
+      return [];  // Nothing stored yet
+    }
+  }
+}
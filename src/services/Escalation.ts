@@ -0,0 +1,150 @@
+/**
+ * Escalation - Tells a human when auto-retry is not getting anywhere
+ *
+ * Turns page events into escalations (repeated retries on one panel, circuit open, errors left
+ * alone, skipped Accept All) and runs the user's hook command for them, one at a time.
+ * Has no dependency on the VS Code API so the CLI can use it too.
+ */
+import { spawn } from 'child_process';
+import { CDPEvent } from './CDPHandler';
+
+export type EscalationKind = 'repeated-retries' | 'circuit-open' | 'non-retryable' | 'accept-guard';
+
+export const ESCALATION_KINDS: EscalationKind[] = ['repeated-retries', 'circuit-open', 'non-retryable', 'accept-guard'];
+
+export interface EscalationSettings {
+  retryThreshold: number;  // Consecutive retries on one panel before escalating (0: never)
+  hook: string;  // Shell command receiving the escalation as JSON on stdin ('' : none)
+  hookEvents: EscalationKind[];
+}
+
+/**
+ * What the hook receives on stdin
+ */
+export interface EscalationEvent {
+  kind: EscalationKind;
+  message: string;
+  category: string;
+  attempts: number;
+  pageId: string;
+  pageTitle: string;
+  buttonText?: string;
+  errorText?: string;
+  timestamp: number;
+}
+
+export type EscalationErrorCallback = (message: string) => void;
+
+// The hook is killed after this long
+const HOOK_TIMEOUT = 10000;
+
+/**
+ * The escalation for a page event, or undefined if it does not need a human
+ */
+export function toEscalation(event: CDPEvent, retryThreshold: number): EscalationEvent | undefined {
+  const category = event.category || 'unknown';
+  const attempts = event.attempts ?? 0;
+  const pageTitle = event.pageTitle || event.pageId;
+
+  let kind: EscalationKind;
+  let message: string;
+  if (event.type === 'clicked' && event.action === 'retry' && retryThreshold > 0 && attempts === retryThreshold) {
+    kind = 'repeated-retries';
+    message = `${attempts} consecutive retries [${category}] on "${pageTitle}"`;
+  } else if (event.type === 'circuit-open') {
+    kind = 'circuit-open';
+    message = `Gave up after ${attempts} retries [${category}] on "${pageTitle}"`;
+  } else if (event.type === 'blocked' && event.reason === 'non-retryable') {
+    kind = 'non-retryable';
+    message = `${category} error on "${pageTitle}" will not be retried`;
+  } else if (event.type === 'blocked' && event.reason === 'accept-guard') {
+    kind = 'accept-guard';
+    message = `Did not click "${event.buttonText}" on "${pageTitle}" (${event.guard})`;
+  } else {
+    return undefined;
+  }
+
+  return {
+    kind,
+    message,
+    category,
+    attempts,
+    pageId: event.pageId,
+    pageTitle,
+    buttonText: event.buttonText,
+    errorText: event.errorText,
+    timestamp: event.timestamp
+  };
+}
+
+/**
+ * Run a shell command with the escalation as JSON on stdin (and its kind in IDE_AUTO_RETRY_EVENT)
+ * Rejects if the command exits non-zero or runs longer than timeoutMs
+ */
+export function runHook(command: string, escalation: EscalationEvent, timeoutMs: number = HOOK_TIMEOUT): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 'ignore', 'pipe'],
+      env: { ...process.env, IDE_AUTO_RETRY_EVENT: escalation.kind }
+    });
+
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-500);
+    });
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.on('error', e => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`exited with ${code}${stderr ? `: ${stderr.trim()}` : ''}`));
+    });
+
+    // The hook may exit without reading stdin
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify(escalation) + '\n');
+  });
+}
+
+export class Escalator {
+  private hookQueue: Promise<void> = Promise.resolve();
+  private readonly getSettings: () => EscalationSettings;
+  private readonly onError: EscalationErrorCallback;
+
+  constructor(getSettings: () => EscalationSettings, onError: EscalationErrorCallback) {
+    this.getSettings = getSettings;
+    this.onError = onError;
+  }
+
+  /**
+   * Escalate a page event if needed: queue the hook and return the escalation for the caller to show
+   */
+  handle(event: CDPEvent): EscalationEvent | undefined {
+    const settings = this.getSettings();
+    const escalation = toEscalation(event, settings.retryThreshold);
+    if (!escalation) return undefined;
+
+    if (settings.hook && settings.hookEvents.includes(escalation.kind)) {
+      this.hookQueue = this.hookQueue
+        .then(() => runHook(settings.hook, escalation))
+        .catch(e => this.onError(`Escalation hook failed (${escalation.kind}): ${e.message}`));
+    }
+    return escalation;
+  }
+
+  /**
+   * Resolves once every queued hook has finished
+   */
+  flush(): Promise<void> {
+    return this.hookQueue;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * ProfileManager - Named bundles of settings (e.g. "overnight", "pairing", "strict")
+ *
+ * A profile overrides a subset of the ideAutoRetry settings. The active profile is resolved as:
+ * profile chosen for this workspace > `ideProfiles[<detected IDE>]` > `activeProfile` > none
+ *
+ * Profiles and the per-IDE/global choice are user settings only, and the workspace choice lives in the
+ * extension's workspace state, so a repository's .vscode/settings.json cannot pick or define a profile
+ */
+import * as vscode from 'vscode';
+
+// Settings a profile may override
+export const PROFILE_SETTINGS = [
+  'acceptAll', 'autoContinue', 'maxConsecutiveContinues', 'dryRun', 'rules', 'errorCategories', 'bannedCommands', 'allowedCommands',
+  'pollInterval', 'cooldown', 'maxBackoff', 'maxRetryAttempts',
+  'acceptAllMaxFiles', 'acceptAllMaxLines', 'acceptAllProtectedPaths', 'acceptAllBannedContent',
+  'notifications', 'escalateAfterRetries'
+];
+
+export type Profile = Record<string, unknown>;
+
+export type ProfileScope = 'workspace' | 'ide' | 'global';
+
+// Workspace state key of the profile chosen for this workspace
+const WORKSPACE_PROFILE_KEY = 'ideAutoRetry.activeProfile';
+
+export const DEFAULT_PROFILES: Record<string, Profile> = {
+  overnight: {
+    acceptAll: true,
+    autoContinue: true,
+    maxConsecutiveContinues: 20,
+    maxRetryAttempts: 20,
+    maxBackoff: 900000,
+    notifications: 'attention'
+  },
+  pairing: {
+    acceptAll: false,
+    autoContinue: false,
+    maxRetryAttempts: 2,
+    cooldown: 10000,
+    notifications: 'all'
+  },
+  strict: {
+    acceptAll: false,
+    maxRetryAttempts: 1,
+    acceptAllMaxFiles: 3,
+    acceptAllMaxLines: 200
+  }
+};
+
+export class ProfileManager {
+  private readonly ideName: string;
+  private readonly workspaceState?: vscode.Memento;
+
+  /**
+   * @param workspaceState Where the profile chosen for this workspace is kept; no workspace choice if omitted
+   */
+  constructor(ideName: string, workspaceState?: vscode.Memento) {
+    this.ideName = ideName;
+    this.workspaceState = workspaceState;
+  }
+
+  private get config(): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration('ideAutoRetry');
+  }
+
+  /**
+   * All profiles by name
+   */
+  getProfiles(): Record<string, Profile> {
+    return this.config.get<Record<string, Profile>>('profiles', DEFAULT_PROFILES);
+  }
+
+  /**
+   * Name of the active profile and where it was chosen, or undefined if none applies
+   * Names that do not match a profile are ignored
+   */
+  getActiveProfile(): { name: string; scope: ProfileScope } | undefined {
+    const profiles = this.getProfiles();
+    const candidates: [string | undefined, ProfileScope][] = [
+      [this.workspaceState?.get<string>(WORKSPACE_PROFILE_KEY), 'workspace'],
+      [this.config.get<Record<string, string>>('ideProfiles', {})[this.ideName], 'ide'],
+      [this.config.get<string>('activeProfile'), 'global']
+    ];
+    for (const [name, scope] of candidates) {
+      if (name && profiles[name]) return { name, scope };
+    }
+    return undefined;
+  }
+
+  /**
+   * Read a setting, taking the active profile's override first
+   */
+  get<T>(key: string, defaultValue: T): T {
+    const active = this.getActiveProfile();
+    const profile = active ? this.getProfiles()[active.name] : undefined;
+    if (profile && PROFILE_SETTINGS.includes(key) && profile[key] !== undefined) {
+      return profile[key] as T;
+    }
+    return this.config.get<T>(key, defaultValue);
+  }
+
+  /**
+   * Write a setting: into the active profile if it overrides the key, otherwise to the user settings
+   * undefined resets the user setting (or drops the override from the profile)
+   */
+  async update(key: string, value: unknown): Promise<void> {
+    const active = this.getActiveProfile();
+    const profiles = this.getProfiles();
+    if (active && PROFILE_SETTINGS.includes(key) && profiles[active.name][key] !== undefined) {
+      const profile = { ...profiles[active.name], [key]: value };
+      if (value === undefined) delete profile[key];
+      await this.config.update('profiles', { ...profiles, [active.name]: profile }, vscode.ConfigurationTarget.Global);
+      return;
+    }
+    await this.config.update(key, value, vscode.ConfigurationTarget.Global);
+  }
+
+  /**
+   * Activate a profile (undefined: no profile) for this workspace, this IDE or everywhere
+   * Clearing a scope lets the next one in the resolution order apply
+   */
+  async setActiveProfile(name: string | undefined, scope: ProfileScope): Promise<void> {
+    if (scope === 'workspace') {
+      await this.workspaceState?.update(WORKSPACE_PROFILE_KEY, name);
+      return;
+    }
+    if (scope === 'ide') {
+      const ideProfiles = { ...this.config.get<Record<string, string>>('ideProfiles', {}) };
+      if (name) ideProfiles[this.ideName] = name;
+      else delete ideProfiles[this.ideName];
+      await this.config.update('ideProfiles', ideProfiles, vscode.ConfigurationTarget.Global);
+      return;
+    }
+    await this.config.update('activeProfile', name, vscode.ConfigurationTarget.Global);
+  }
+
+  getIdeName(): string {
+    return this.ideName;
+  }
+}
@@ -23,6 +23,14 @@ export class Relauncher {
     this.cdpPort = config.get('cdpPort', DEFAULT_PORT);
   }
 
+  /**
+   * Re-read the CDP port after a settings change; the launcher flag follows it
+   */
+  reloadSettings(): void {
+    const config = vscode.workspace.getConfiguration('ideAutoRetry');
+    this.cdpPort = config.get('cdpPort', DEFAULT_PORT);
+  }
+
   setLogCallback(callback: RelauncherLogCallback): void {
     this.logCallback = callback;
   }
@@ -0,0 +1,222 @@
+/**
+ * Scheduler - Turns auto-retry on during unattended periods
+ *
+ * Active while the clock is inside one of the time windows, or while the user has been idle
+ * for `idleMinutes`. Only transitions call back, so a manual start/stop holds until the next one.
+ * The extension reports user activity through recordActivity(); the clock can be injected for tests.
+ */
+
+/**
+ * Schedule settings
+ * Windows are "<days> <HH:MM>-<HH:MM>", "<HH:MM>-<HH:MM>" (every day) or "<days>" (all day),
+ * days being "*" or a list like "mon-fri" or "sat,sun". A window ending before it starts runs past midnight.
+ */
+export interface ScheduleSettings {
+  windows: string[];
+  idleMinutes: number;  // 0: no idle detection
+}
+
+export interface ScheduleWindow {
+  text: string;
+  days: Set<number>;  // 0 = Sunday, like Date.getDay()
+  from: number;  // Minutes since midnight
+  to: number;
+}
+
+export interface ScheduleState {
+  enabled: boolean;
+  active: boolean;
+  reason: string;  // Why the schedule is (in)active
+  windows: string[];
+  idleMinutes: number;
+  idleFor: number;  // Minutes since the last activity
+  errors: string[];  // Windows that could not be parsed
+}
+
+export type ScheduleChangeCallback = (active: boolean, reason: string) => void;
+
+// Re-evaluate the schedule this often
+const TICK_INTERVAL = 30000;
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseDay(name: string, text: string): number {
+  const day = DAY_NAMES.indexOf(name.slice(0, 3).toLowerCase());
+  if (day < 0) throw new Error(`Unknown day "${name}" in "${text}"`);
+  return day;
+}
+
+function parseTime(value: string, text: string): number {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!match || Number(match[2]) > 59 || minutes > 24 * 60) throw new Error(`Invalid time "${value}" in "${text}"`);
+  return minutes;
+}
+
+/**
+ * Parse a schedule window, throwing on invalid input
+ */
+export function parseScheduleWindow(text: string): ScheduleWindow {
+  let daysPart = '*';
+  let timePart = '00:00-24:00';
+  for (const part of text.trim().split(/\s+/)) {
+    if (part.includes(':')) timePart = part;
+    else daysPart = part;
+  }
+
+  const days = new Set<number>();
+  for (const item of daysPart.split(',')) {
+    if (item === '*') {
+      DAY_NAMES.forEach((_, day) => days.add(day));
+      continue;
+    }
+    const [first, last] = item.split('-');
+    const start = parseDay(first, text);
+    const end = last === undefined ? start : parseDay(last, text);
+    for (let day = start; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === end) break;
+    }
+  }
+
+  const times = timePart.split('-');
+  if (times.length !== 2) throw new Error(`Invalid time range "${timePart}" in "${text}"`);
+  return { text, days, from: parseTime(times[0], text), to: parseTime(times[1], text) };
+}
+
+/**
+ * Whether a date falls inside a window (in local time)
+ */
+export function isInWindow(window: ScheduleWindow, date: Date): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+  if (window.from < window.to) {
+    return window.days.has(day) && minutes >= window.from && minutes < window.to;
+  }
+  // Past midnight: the part after midnight belongs to the previous day's window
+  return (window.days.has(day) && minutes >= window.from) || (window.days.has((day + 6) % 7) && minutes < window.to);
+}
+
+export class Scheduler {
+  private windows: ScheduleWindow[] = [];
+  private errors: string[] = [];
+  private settings: ScheduleSettings = { windows: [], idleMinutes: 0 };
+  private lastActivity: number;
+  private active?: boolean;  // Unknown until the first evaluation
+  private reason: string = '';
+  private timer?: ReturnType<typeof setInterval>;
+  private readonly getSettings: () => ScheduleSettings;
+  private readonly onChange: ScheduleChangeCallback;
+  private readonly now: () => number;
+
+  constructor(getSettings: () => ScheduleSettings, onChange: ScheduleChangeCallback, now: () => number = Date.now) {
+    this.getSettings = getSettings;
+    this.onChange = onChange;
+    this.now = now;
+    this.lastActivity = now();
+  }
+
+  /**
+   * Re-read the settings, (re)start the timer if the schedule is enabled and evaluate right away
+   * The first evaluation only starts: being outside the schedule at launch does not stop anything
+   */
+  reload(): void {
+    this.settings = this.getSettings();
+    this.windows = [];
+    this.errors = [];
+    for (const text of this.settings.windows) {
+      try {
+        this.windows.push(parseScheduleWindow(text));
+      } catch (e: any) {
+        this.errors.push(e.message);
+      }
+    }
+
+    this.dispose();
+    if (this.isEnabled()) {
+      this.timer = setInterval(() => this.evaluate(), TICK_INTERVAL);
+      this.evaluate();
+    } else {
+      this.active = undefined;
+      this.reason = '';
+    }
+  }
+
+  /**
+   * Stop the timer
+   */
+  dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.windows.length > 0 || this.settings.idleMinutes > 0;
+  }
+
+  /**
+   * The user did something (focused the window, typed, switched editors)
+   */
+  recordActivity(): void {
+    this.lastActivity = this.now();
+    // Coming back from idle ends an idle-based activation right away
+    if (this.active && this.settings.idleMinutes > 0) {
+      this.evaluate();
+    }
+  }
+
+  /**
+   * Forget the last evaluation, so the next one calls back with the current state even if it did not change
+   * (a start that failed is retried on the next tick)
+   */
+  retryTransition(): void {
+    this.active = undefined;
+  }
+
+  /**
+   * Compute whether the schedule is active and call back on a change
+   */
+  evaluate(): void {
+    if (!this.isEnabled()) return;
+
+    const { active, reason } = this.compute();
+    const previous = this.active;
+    this.active = active;
+    this.reason = reason;
+    if (active !== previous && (previous !== undefined || active)) {
+      this.onChange(active, reason);
+    }
+  }
+
+  getState(): ScheduleState {
+    return {
+      enabled: this.isEnabled(),
+      active: !!this.active,
+      reason: this.reason,
+      windows: this.settings.windows,
+      idleMinutes: this.settings.idleMinutes,
+      idleFor: Math.floor((this.now() - this.lastActivity) / 60000),
+      errors: this.errors
+    };
+  }
+
+  private compute(): { active: boolean; reason: string } {
+    const now = this.now();
+    const window = this.windows.find(w => isInWindow(w, new Date(now)));
+    if (window) {
+      return { active: true, reason: `inside window "${window.text}"` };
+    }
+
+    const idleFor = now - this.lastActivity;
+    if (this.settings.idleMinutes > 0 && idleFor >= this.settings.idleMinutes * 60000) {
+      return { active: true, reason: `idle for ${Math.floor(idleFor / 60000)} min` };
+    }
+
+    const reasons: string[] = [];
+    if (this.windows.length > 0) reasons.push('outside the time windows');
+    if (this.settings.idleMinutes > 0) reasons.push(`user active ${Math.floor(idleFor / 60000)} min ago`);
+    return { active: false, reason: reasons.join(', ') };
+  }
+}
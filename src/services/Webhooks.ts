@@ -0,0 +1,208 @@
+/**
+ * Webhooks - Pushes page events to user-configured HTTP endpoints
+ *
+ * Events are batched per webhook (one POST per batch), retried with backoff on network errors,
+ * 429 and 5xx responses, and signed with HMAC-SHA256 when the webhook has a secret.
+ */
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { CDPEvent, CDPEventType } from './CDPHandler';
+
+/**
+ * A webhook from the `webhooks` setting
+ * `template` is any JSON value; strings may contain {{count}}, {{summary}} and {{source}},
+ * and the string "{{events}}" is replaced by the array of events
+ */
+export interface WebhookConfig {
+  url: string;
+  events?: CDPEventType[];
+  template?: unknown;
+  secret?: string;
+  headers?: Record<string, string>;
+}
+
+export interface WebhookOptions {
+  batchDelay?: number;  // Wait this long for more events before sending
+  maxBatchSize?: number;  // Send right away once this many events are queued
+  maxAttempts?: number;
+  retryDelay?: number;  // First retry delay, doubled on each attempt
+  timeout?: number;
+}
+
+export type WebhookErrorCallback = (message: string) => void;
+
+export const DEFAULT_WEBHOOK_EVENTS: CDPEventType[] = ['clicked', 'blocked', 'circuit-open', 'disconnected'];
+
+export const DEFAULT_WEBHOOK_TEMPLATE = { source: '{{source}}', count: '{{count}}', events: '{{events}}' };
+
+// Header carrying "sha256=<hex HMAC of the body>"
+export const SIGNATURE_HEADER = 'X-IDEAutoRetry-Signature';
+
+const SOURCE = 'ide-auto-retry';
+
+// Events kept per webhook while its endpoint is failing; the oldest are dropped first
+const MAX_QUEUED_EVENTS = 1000;
+
+/**
+ * One-line description of an event, used for {{summary}}
+ */
+export function describeEvent(event: CDPEvent): string {
+  const category = event.category ? ` [${event.category}]` : '';
+  const button = event.buttonText ? ` "${event.buttonText}"` : '';
+  const reason = event.reason ? ` (${event.guard ?? event.reason})` : '';
+  const command = event.command ? `: ${event.command}` : '';
+  return `${event.type}${button}${category}${reason} on ${event.pageTitle || event.pageId}${command}`;
+}
+
+/**
+ * Render a body template for a batch of events
+ */
+export function renderTemplate(template: unknown, events: CDPEvent[]): unknown {
+  if (typeof template === 'string') {
+    if (template === '{{events}}') return events;
+    const values: Record<string, string> = {
+      count: String(events.length),
+      summary: events.map(describeEvent).join('\n'),
+      source: SOURCE
+    };
+    const rendered = template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => values[name] ?? match);
+    // A lone {{count}} stays a number
+    return template === '{{count}}' ? events.length : rendered;
+  }
+  if (Array.isArray(template)) {
+    return template.map(item => renderTemplate(item, events));
+  }
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, renderTemplate(value, events)]));
+  }
+  return template;
+}
+
+/**
+ * HMAC-SHA256 signature of a body, as sent in SIGNATURE_HEADER
+ */
+export function signBody(secret: string, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+class RetryableError extends Error {}
+
+export class WebhookDispatcher {
+  private queues: Map<string, CDPEvent[]> = new Map();  // Per webhook URL
+  private timer?: ReturnType<typeof setTimeout>;
+  private sending: Promise<void> = Promise.resolve();
+  private readonly getWebhooks: () => WebhookConfig[];
+  private readonly onError: WebhookErrorCallback;
+  private readonly options: Required<WebhookOptions>;
+
+  constructor(getWebhooks: () => WebhookConfig[], onError: WebhookErrorCallback, options: WebhookOptions = {}) {
+    this.getWebhooks = getWebhooks;
+    this.onError = onError;
+    this.options = {
+      batchDelay: options.batchDelay ?? 5000,
+      maxBatchSize: options.maxBatchSize ?? 50,
+      maxAttempts: options.maxAttempts ?? 4,
+      retryDelay: options.retryDelay ?? 1000,
+      timeout: options.timeout ?? 10000
+    };
+  }
+
+  /**
+   * Queue events for every webhook whose filter matches them
+   */
+  enqueue(events: CDPEvent[]): void {
+    let full = false;
+    for (const webhook of this.getWebhooks()) {
+      const types = webhook.events ?? DEFAULT_WEBHOOK_EVENTS;
+      const matching = events.filter(event => types.includes(event.type));
+      if (!webhook.url || matching.length === 0) continue;
+
+      const queue = [...(this.queues.get(webhook.url) ?? []), ...matching].slice(-MAX_QUEUED_EVENTS);
+      this.queues.set(webhook.url, queue);
+      full = full || queue.length >= this.options.maxBatchSize;
+    }
+
+    if (full) {
+      this.flush();
+    } else if (this.queues.size > 0 && !this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.options.batchDelay);
+    }
+  }
+
+  /**
+   * Send everything queued now; resolves once all deliveries (including retries) are done
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const batches = this.queues;
+    this.queues = new Map();
+    const webhooks = this.getWebhooks();
+    for (const [url, events] of batches) {
+      const webhook = webhooks.find(w => w.url === url);
+      if (!webhook) continue;  // Removed from the settings meanwhile
+      for (let i = 0; i < events.length; i += this.options.maxBatchSize) {
+        const batch = events.slice(i, i + this.options.maxBatchSize);
+        this.sending = this.sending.then(() => this.deliver(webhook, batch));
+      }
+    }
+    return this.sending;
+  }
+
+  /**
+   * POST one batch, retrying with backoff; reports the final failure instead of throwing
+   */
+  private async deliver(webhook: WebhookConfig, events: CDPEvent[]): Promise<void> {
+    const body = JSON.stringify(renderTemplate(webhook.template ?? DEFAULT_WEBHOOK_TEMPLATE, events));
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': SOURCE,
+      ...webhook.headers
+    };
+    if (webhook.secret) headers[SIGNATURE_HEADER] = signBody(webhook.secret, body);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.post(webhook.url, headers, body);
+        return;
+      } catch (e: any) {
+        if (!(e instanceof RetryableError) || attempt >= this.options.maxAttempts) {
+          this.onError(`Webhook ${webhook.url} failed, dropped ${events.length} event(s) after ${attempt} attempt(s): ${e.message}`);
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, this.options.retryDelay * Math.pow(2, attempt - 1)));
+      }
+    }
+  }
+
+  private post(url: string, headers: Record<string, string>, body: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let target: URL;
+      try {
+        target = new URL(url);
+      } catch (e) {
+        reject(new Error('invalid URL'));
+        return;
+      }
+
+      const req = (target.protocol === 'https:' ? https : http).request(target, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        timeout: this.options.timeout
+      }, (res) => {
+        res.resume();
+        const status = res.statusCode ?? 0;
+        if (status >= 200 && status < 300) resolve();
+        else if (status === 429 || status >= 500) reject(new RetryableError(`HTTP ${status}`));
+        else reject(new Error(`HTTP ${status}`));
+      });
+      req.on('error', e => reject(new RetryableError(e.message)));
+      req.on('timeout', () => req.destroy(new Error('timeout')));
+      req.end(body);
+    });
+  }
+}
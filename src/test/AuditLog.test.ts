@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuditLog } from '../services/AuditLog';
+import { CDPEvent } from '../services/CDPHandler';
+
+function event(timestamp: number, overrides: Partial<CDPEvent> = {}): CDPEvent {
+  return {
+    type: 'clicked',
+    action: 'retry',
+    pageId: '127.0.0.1:9222:page-1',
+    pageTitle: 'Agent',
+    buttonText: 'Retry',
+    errorText: 'Request failed',
+    timestamp,
+    ...overrides
+  };
+}
+
+function lines(file: string): string[] {
+  return fs.readFileSync(file, 'utf8').split('\n').filter(Boolean);
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends one JSON line per event with an ISO time', async () => {
+    const log = new AuditLog(path.join(dir, 'storage'));
+    await log.append([event(1000), event(2000, { type: 'blocked', action: undefined })]);
+    await log.append([event(3000)]);
+
+    const written = lines(log.getLogPath()).map(line => JSON.parse(line));
+    expect(written).toHaveLength(3);
+    expect(written[0]).toMatchObject({ time: new Date(1000).toISOString(), type: 'clicked', buttonText: 'Retry', errorText: 'Request failed' });
+    expect(written[1].type).toBe('blocked');
+    expect((await log.read(2000)).map(e => e.timestamp)).toEqual([2000, 3000]);
+  });
+
+  it('writes nothing for an empty batch', async () => {
+    const log = new AuditLog(dir);
+    await log.append([]);
+    expect(fs.existsSync(log.getLogPath())).toBe(false);
+  });
+
+  it('rotates once the active file reaches the size limit', async () => {
+    const log = new AuditLog(dir, { maxFileSize: 1, maxFiles: 5 });
+    await log.append([event(1000)]);
+    await log.append([event(2000)]);
+
+    expect(lines(log.getLogPath()).map(line => JSON.parse(line).timestamp)).toEqual([2000]);
+    expect(lines(path.join(dir, 'events.1.jsonl')).map(line => JSON.parse(line).timestamp)).toEqual([1000]);
+    expect((await log.read()).map(e => e.timestamp)).toEqual([1000, 2000]);
+  });
+
+  it('keeps only the configured number of files', async () => {
+    const log = new AuditLog(dir, { maxFileSize: 1, maxFiles: 3 });
+    for (let i = 1; i <= 6; i++) {
+      await log.append([event(i * 1000)]);
+    }
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['events.1.jsonl', 'events.2.jsonl', 'events.jsonl']);
+    expect((await log.read()).map(e => e.timestamp)).toEqual([4000, 5000, 6000]);
+  });
+
+  it('skips corrupt lines when reading', async () => {
+    const log = new AuditLog(dir);
+    await log.append([event(1000)]);
+    fs.appendFileSync(log.getLogPath(), '{"type":"cli\n');
+    await log.append([event(2000)]);
+
+    expect((await log.read()).map(e => e.timestamp)).toEqual([1000, 2000]);
+  });
+});
@@ -0,0 +1,153 @@
+import * as os from 'os';
+import * as path from 'path';
+import type { ConfigurationChangeEvent } from 'vscode';
+import { afterEach, beforeEach, describe, expect, it, MockInstance, vi } from 'vitest';
+
+// User settings read through a minimal WorkspaceConfiguration
+const settings = vi.hoisted(() => ({
+  values: {} as Record<string, unknown>
+}));
+
+vi.mock('vscode', () => ({
+  ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+  env: { appName: 'Visual Studio Code' },
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, defaultValue?: unknown) => settings.values[key] ?? defaultValue,
+      update: async () => undefined
+    })
+  },
+  window: {
+    showInformationMessage: async () => undefined,
+    showWarningMessage: async () => undefined
+  },
+  commands: {
+    executeCommand: async () => undefined
+  }
+}));
+
+import { AuditLog } from '../services/AuditLog';
+import { AutoRetryService } from '../services/AutoRetryService';
+import { CDPEvent, CDPHandler } from '../services/CDPHandler';
+import { Relauncher } from '../services/Relauncher';
+import { Escalator } from '../services/Escalation';
+import { WebhookDispatcher } from '../services/Webhooks';
+
+describe('AutoRetryService', () => {
+  let service: AutoRetryService;
+
+  beforeEach(() => {
+    settings.values = {};
+    service = new AutoRetryService();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('applyConfigurationChange', () => {
+    // Change event for the given ideAutoRetry settings
+    const change = (...keys: string[]): ConfigurationChangeEvent => ({
+      affectsConfiguration: (section: string) => keys.some(key => section === `ideAutoRetry.${key}`)
+    });
+
+    let start: MockInstance<CDPHandler['start']>;
+    let updateConfig: MockInstance<CDPHandler['updateConfig']>;
+    let reloadConnections: MockInstance<CDPHandler['reloadSettings']>;
+    let reloadPort: MockInstance<Relauncher['reloadSettings']>;
+
+    beforeEach(async () => {
+      start = vi.spyOn(CDPHandler.prototype, 'start').mockResolvedValue(true);
+      updateConfig = vi.spyOn(CDPHandler.prototype, 'updateConfig').mockResolvedValue();
+      reloadConnections = vi.spyOn(CDPHandler.prototype, 'reloadSettings').mockResolvedValue(false);
+      reloadPort = vi.spyOn(Relauncher.prototype, 'reloadSettings');
+      vi.spyOn(CDPHandler.prototype, 'stop').mockResolvedValue();
+      await service.start();
+      start.mockClear();
+    });
+
+    afterEach(async () => {
+      await service.stop();
+    });
+
+    it('pushes a runtime change to the pages without reconnecting', async () => {
+      settings.values.cooldown = 10000;
+      expect(await service.applyConfigurationChange(change('cooldown'))).toEqual(['cooldown']);
+
+      expect(updateConfig).toHaveBeenCalledWith(expect.objectContaining({ cooldown: 10000 }));
+      expect(reloadPort).not.toHaveBeenCalled();
+      expect(reloadConnections).not.toHaveBeenCalled();
+      expect(start).not.toHaveBeenCalled();
+    });
+
+    it('reloads the connection settings and rescans when they call for it', async () => {
+      reloadConnections.mockResolvedValue(true);
+      expect(await service.applyConfigurationChange(change('cdpPort'))).toEqual(['cdpPort']);
+
+      expect(reloadPort).toHaveBeenCalled();
+      expect(reloadConnections).toHaveBeenCalled();
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(updateConfig).not.toHaveBeenCalled();
+    });
+
+    it('keeps the connections when a connection change needs no rescan', async () => {
+      expect(await service.applyConfigurationChange(change('maxConnections'))).toEqual(['maxConnections']);
+
+      expect(reloadConnections).toHaveBeenCalled();
+      expect(start).not.toHaveBeenCalled();
+    });
+
+    it('ignores settings it does not apply', async () => {
+      expect(await service.applyConfigurationChange(change('autoStart'))).toEqual([]);
+
+      expect(reloadConnections).not.toHaveBeenCalled();
+      expect(updateConfig).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('audit log', () => {
+    let emit: (events: CDPEvent[]) => void;
+    let append: MockInstance<AuditLog['append']>;
+
+    beforeEach(() => {
+      vi.spyOn(CDPHandler.prototype, 'setEventCallback').mockImplementation(callback => { emit = callback; });
+      append = vi.spyOn(AuditLog.prototype, 'append').mockResolvedValue();
+      service = new AutoRetryService(path.join(os.tmpdir(), 'auto-retry-storage'));
+    });
+
+    const events: CDPEvent[] = [
+      { type: 'clicked', action: 'retry', pageId: 'page-1', timestamp: 1000 },
+      { type: 'health', pageId: 'page-1', timestamp: 1000 }
+    ];
+
+    it('records reported events except health checks', () => {
+      emit(events);
+      expect(append).toHaveBeenCalledWith([events[0]]);
+    });
+
+    it('records nothing while disabled', () => {
+      settings.values.auditLog = false;
+      emit(events);
+      expect(append).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispose', () => {
+    it('waits for pending webhook events and escalation hooks', async () => {
+      let finishHook!: () => void;
+      const hook = new Promise<void>(resolve => { finishHook = resolve; });
+      vi.spyOn(Escalator.prototype, 'flush').mockReturnValue(hook);
+      const webhookFlush = vi.spyOn(WebhookDispatcher.prototype, 'flush').mockResolvedValue();
+
+      let disposed = false;
+      const dispose = service.dispose().then(() => { disposed = true; });
+      await vi.waitFor(() => expect(webhookFlush).toHaveBeenCalled());
+      await new Promise(resolve => setTimeout(resolve, 10));
+      expect(disposed).toBe(false);
+
+      finishHook();
+      await dispose;
+      expect(disposed).toBe(true);
+    });
+  });
+});
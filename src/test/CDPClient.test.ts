@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CDPClient } from '../services/CDPClient';
+import { FakeCDPServer } from './helpers/FakeCDPServer';
+
+describe('CDPClient', () => {
+  let server: FakeCDPServer;
+  let client: CDPClient;
+
+  beforeEach(async () => {
+    server = await FakeCDPServer.start([{ id: 'page-1', html: '<body><p>hello</p></body>' }]);
+    client = await CDPClient.connect(`ws://127.0.0.1:${server.port}/devtools/page/page-1`);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.close();
+  });
+
+  it('resolves commands with their result', async () => {
+    const response = await client.send('Runtime.evaluate', { expression: 'document.querySelector("p").textContent' });
+    expect(response.result.value).toBe('hello');
+  });
+
+  it('matches concurrent responses to their requests', async () => {
+    const results = await Promise.all([1, 2, 3].map(n =>
+      client.send('Runtime.evaluate', { expression: `${n} * 10` })
+    ));
+    expect(results.map(r => r.result.value)).toEqual([10, 20, 30]);
+  });
+
+  it('emits protocol events under their method name', async () => {
+    await client.send('Runtime.addBinding', { name: '__testBinding' });
+    const received = new Promise(resolve => client.once('Runtime.bindingCalled', resolve));
+
+    await client.send('Runtime.evaluate', { expression: 'window.__testBinding("ping")' });
+
+    expect(await received).toMatchObject({ name: '__testBinding', payload: 'ping' });
+  });
+
+  it('rejects protocol errors with the method name', async () => {
+    await expect(client.send('Runtime.enable', {}).then(() =>
+      client.send('Debugger.enable' as any)
+    )).rejects.toThrow(/^Debugger\.enable: /);
+  });
+
+  it('rejects with a timeout when the target does not answer', async () => {
+    server.hang('Runtime.evaluate');
+    await expect(client.send('Runtime.evaluate', { expression: '1' }, 50)).rejects.toThrow('CDP Timeout: Runtime.evaluate');
+  });
+
+  it('rejects pending requests when the connection closes', async () => {
+    server.hang('Runtime.evaluate');
+    const pending = client.send('Runtime.evaluate', { expression: '1' });
+    const closed = new Promise(resolve => client.once('close', resolve));
+
+    server.removeTarget('page-1');
+
+    await expect(pending).rejects.toThrow('CDP connection closed');
+    await closed;
+    expect(client.isOpen).toBe(false);
+    await expect(client.send('Runtime.enable')).rejects.toThrow('CDP connection is not open');
+  });
+
+  it('rejects connecting to a closed port', async () => {
+    await expect(CDPClient.connect('ws://127.0.0.1:1/devtools/page/none', 1000)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,433 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentAdapter, mergeAdapters } from '../services/AgentAdapters';
+import { CDPConfig, CDPEndpoint, CDPEvent, CDPHandler, DEFAULT_TARGET_FILTER, TargetFilter } from '../services/CDPHandler';
+import { FakeCDPServer, FakeTarget } from './helpers/FakeCDPServer';
+import { readFixture } from './helpers/loadInjectScript';
+
+// Keep the detection loop out of the way; tests trigger cycles through start()
+const CONFIG: CDPConfig = { pollInterval: 60 * 60 * 1000 };
+
+function target(id: string, fixture = 'cursor.html'): FakeTarget {
+  return { id, title: `Window ${id}`, html: readFixture(fixture) };
+}
+
+describe('CDPHandler', () => {
+  let server: FakeCDPServer;
+  let handler: CDPHandler;
+  let events: CDPEvent[];
+  let maxConnections: number;
+  let cdpPort: number;
+  let targets: TargetFilter;
+  let endpoints: CDPEndpoint[];
+  let adapters: AgentAdapter[] | undefined;
+  let ide: string | undefined;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    server = await FakeCDPServer.start();
+    maxConnections = 10;
+    cdpPort = server.port;
+    targets = DEFAULT_TARGET_FILTER;
+    endpoints = [];
+    adapters = undefined;
+    ide = undefined;
+    events = [];
+    handler = new CDPHandler(() => ({ cdpPort, cdpPortRange: 0, maxConnections, endpoints, targets, adapters, ide }));
+    handler.setEventCallback(batch => events.push(...batch));
+  });
+
+  afterEach(async () => {
+    await handler.stop();
+    await server.close();
+    vi.restoreAllMocks();
+  });
+
+  it('reports CDP as unavailable when no page is listed', async () => {
+    expect(await handler.isCDPAvailable()).toBe(false);
+    expect(await handler.start(CONFIG)).toBe(false);
+  });
+
+  it('ignores targets that are not pages or webviews', async () => {
+    server.addTarget({ ...target('worker'), type: 'service_worker' });
+    expect(await handler.start(CONFIG)).toBe(false);
+  });
+
+  it('connects, registers the event binding and injects the script', async () => {
+    server.addTarget(target('a'));
+
+    expect(await handler.isCDPAvailable()).toBe(true);
+    expect(await handler.getActivePort()).toBe(server.port);
+    expect(await handler.start(CONFIG)).toBe(true);
+
+    expect(handler.getConnectionCount()).toBe(1);
+    expect(handler.isRunning()).toBe(true);
+    expect(server.commandsFor('a').map(c => c.method).slice(0, 3)).toEqual(['Page.enable', 'Runtime.enable', 'Runtime.addBinding']);
+    expect(server.getWindow('a').__autoRetryGetHealth().observerSetupDone).toBe(true);
+  });
+
+  it('pushes events from the page through the binding with page info', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    const clicked = events.find(e => e.type === 'clicked');
+    expect(clicked).toMatchObject({
+      action: 'retry',
+      buttonText: 'Retry',
+      category: 'network',
+      attempts: 1,
+      pageId: server.pageId('a'),
+      pageTitle: 'Window a'
+    });
+    expect(events.some(e => e.type === 'health')).toBe(true);
+  });
+
+  it('passes activity reports to the activity callback instead of the events', async () => {
+    const activity = vi.fn();
+    handler.setActivityCallback(activity);
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    server.getWindow('a').__autoRetryEmit(JSON.stringify({ type: 'activity' }));
+    await vi.waitFor(() => expect(activity).toHaveBeenCalledTimes(1));
+    expect(events.some(e => (e.type as string) === 'activity')).toBe(false);
+  });
+
+  it('aggregates stats across pages and resets them', async () => {
+    server.addTarget(target('a'));
+    server.addTarget(target('b', 'antigravity.html'));
+    await handler.start(CONFIG);
+
+    expect(await handler.getStats()).toEqual({ clicks: 2, blocked: 1, acceptAllClicks: 0, circuitOpen: 0, wouldClick: 0, continueClicks: 0, commandApprovals: 0 });
+    expect(await handler.resetStats()).toMatchObject({ clicks: 2 });
+    expect(await handler.getStats()).toMatchObject({ clicks: 0, blocked: 0 });
+  });
+
+  it('lists highlighted candidates of every page with page info', async () => {
+    server.addTarget(target('a', 'copilot-chat.html'));
+    await handler.start(CONFIG);
+
+    const candidates = await handler.highlightCandidates(0);
+    expect(candidates).toContainEqual(expect.objectContaining({ type: 'acceptAll', status: 'off', pageId: server.pageId('a'), pageTitle: 'Window a' }));
+    expect(server.getWindow('a').document.querySelectorAll('[data-auto-retry-overlay]').length).toBeGreaterThan(0);
+  });
+
+  it('screenshots the error panel of a retry event before the click', async () => {
+    server.addTarget(target('a'));
+    await handler.start({ ...CONFIG, captureSnapshots: true, captureScreenshots: true });
+
+    await vi.waitFor(() => expect(events.find(e => e.type === 'clicked')?.snapshot?.screenshot).toBeDefined());
+    const { snapshot } = events.find(e => e.type === 'clicked')!;
+    expect(JSON.parse(Buffer.from(snapshot!.screenshot!, 'base64').toString())).toEqual({ ...snapshot!.rect, scale: 1 });
+    expect(server.commandsFor('a', 'Page.captureScreenshot')[0].params).toMatchObject({ format: 'jpeg' });
+  });
+
+  it('pushes runtime config changes to injected pages without re-injecting', async () => {
+    server.addTarget(target('a', 'copilot-chat.html'));
+    await handler.start(CONFIG);
+    expect(events.some(e => e.action === 'acceptAll')).toBe(false);
+
+    await handler.start({ ...CONFIG, acceptAll: true });
+
+    const window = server.getWindow('a');
+    expect(window.__autoRetryConfig.acceptAll).toBe(true);
+    expect(server.commandsFor('a', 'Runtime.addBinding')).toHaveLength(1);
+
+    window.__autoRetryStart();
+    await vi.waitFor(() => expect(events.some(e => e.type === 'clicked' && e.action === 'acceptAll')).toBe(true));
+  });
+
+  it('falls back to draining queued events when bindings are unsupported', async () => {
+    server.fail('Runtime.addBinding');
+    server.addTarget(target('a'));
+
+    await handler.start(CONFIG);
+    expect(events).toHaveLength(0);
+
+    await handler.start(CONFIG);
+    expect(events.find(e => e.type === 'clicked')).toMatchObject({ pageId: server.pageId('a'), buttonText: 'Retry' });
+  });
+
+  it('evicts the oldest connection when maxConnections is reached', async () => {
+    maxConnections = 2;
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    server.addTarget(target('b'));
+    await handler.start(CONFIG);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    server.addTarget(target('c'));
+    await handler.start(CONFIG);
+
+    expect(handler.getConnectionCount()).toBe(2);
+    expect(server.commandsFor('a').some(c => c.params?.expression?.includes('__autoRetryStop'))).toBe(true);
+    expect(server.commandsFor('a').some(c => c.params?.expression?.includes('__autoRetryDrainEvents'))).toBe(true);
+  });
+
+  it('drops connections to closed pages and reconnects on the next scan', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    server.removeTarget('a');
+    await vi.waitFor(() => expect(handler.getConnectionCount()).toBe(0));
+    expect(handler.isRunning()).toBe(false);
+
+    server.addTarget(target('a'));
+    expect(await handler.start(CONFIG)).toBe(true);
+    expect(handler.getConnectionCount()).toBe(1);
+  });
+
+  it('re-injects the script after the page navigates', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    server.navigate('a');
+
+    await vi.waitFor(() => expect(server.getWindow('a').__autoRetryLoaded).toBe(true));
+    expect(server.commandsFor('a', 'Runtime.addBinding')).toHaveLength(1);
+    await vi.waitFor(() => expect(events.filter(e => e.type === 'clicked')).toHaveLength(2));
+  });
+
+  it('re-injects with the config from the last update after the page navigates', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+    await handler.updateConfig({ ...CONFIG, dryRun: true });
+
+    server.navigate('a');
+
+    await vi.waitFor(() => expect(server.getWindow('a').__autoRetryLoaded).toBe(true));
+    expect(server.getWindow('a').__autoRetryConfig.dryRun).toBe(true);
+    await vi.waitFor(() => expect(events.some(e => e.type === 'would-click')).toBe(true));
+    expect(events.filter(e => e.type === 'clicked')).toHaveLength(1);
+  });
+
+  it('reconnects on its own when a socket drops but the page is still listed', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    server.dropConnections('a');
+
+    await vi.waitFor(() => expect(server.commandsFor('a', 'Runtime.addBinding')).toHaveLength(2));
+    await vi.waitFor(() => expect(handler.getConnectionCount()).toBe(1));
+    expect(handler.isReconnecting()).toBe(false);
+    expect(events.filter(e => e.type === 'disconnected')).toMatchObject([
+      { pageId: server.pageId('a'), pageTitle: 'Window a' }
+    ]);
+  });
+
+  it('keeps reconnecting with backoff while the endpoint is away', async () => {
+    const statusUpdates = vi.fn();
+    handler.setStatusUpdateCallback(statusUpdates);
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    await server.close();
+    await vi.waitFor(() => expect(handler.isReconnecting()).toBe(true));
+    expect(handler.getConnectionCount()).toBe(0);
+
+    server = await FakeCDPServer.start([target('a')], cdpPort);
+    await vi.waitFor(() => expect(handler.isReconnecting()).toBe(false), { timeout: 5000 });
+    expect(handler.getConnectionCount()).toBe(1);
+    expect(server.getWindow('a').__autoRetryLoaded).toBe(true);
+    expect(statusUpdates).toHaveBeenCalled();
+  });
+
+  it('pushes config changes to every page, including the poll interval', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+    const window = server.getWindow('a');
+    const setIntervalSpy = vi.spyOn(window, 'setInterval');
+
+    await handler.updateConfig({ ...CONFIG, pollInterval: 2500, maxRetryAttempts: 2, bannedCommands: ['npm publish'] });
+
+    expect(window.__autoRetryConfig).toMatchObject({ pollInterval: 2500, maxRetryAttempts: 2, bannedCommands: ['npm publish'] });
+    expect(setIntervalSpy).toHaveBeenCalledWith(expect.any(Function), 2500);
+    expect(server.commandsFor('a', 'Runtime.addBinding')).toHaveLength(1);
+  });
+
+  it('rescans a changed port range without dropping connections', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    const other = await FakeCDPServer.start([target('b')]);
+    try {
+      cdpPort = other.port;
+      expect(await handler.reloadSettings()).toBe(true);
+      await handler.start(CONFIG);
+
+      expect(handler.getConnectionCount()).toBe(2);
+      expect(await handler.reloadSettings()).toBe(false);
+
+      // Pages outside the new range still receive config updates
+      await handler.updateConfig({ ...CONFIG, acceptAll: true });
+      expect(server.getWindow('a').__autoRetryConfig.acceptAll).toBe(true);
+    } finally {
+      await handler.stop();
+      await other.close();
+    }
+  });
+
+  it('scans a list of endpoints and reports the status of each', async () => {
+    server.addTarget(target('a'));
+    const other = await FakeCDPServer.start([target('b')]);
+    const closed = await FakeCDPServer.start();
+    const closedPort = closed.port;
+    await closed.close();
+    try {
+      endpoints = [
+        { host: 'localhost', port: server.port },
+        { host: '127.0.0.1', port: other.port },
+        { host: '127.0.0.1', port: closedPort }
+      ];
+      await handler.reloadSettings();
+      expect(handler.getEndpoints().map(e => e.status)).toEqual(['unknown', 'unknown', 'unknown']);
+
+      expect(await handler.start(CONFIG)).toBe(true);
+
+      expect(handler.getConnectionCount()).toBe(2);
+      expect(handler.getTargets().map(t => t.id).sort()).toEqual([`localhost:${server.port}:a`, other.pageId('b')].sort());
+      expect(handler.getEndpoints()).toEqual([
+        { label: `localhost:${server.port}`, status: 'connected', connections: 1 },
+        { label: `127.0.0.1:${other.port}`, status: 'connected', connections: 1 },
+        { label: `127.0.0.1:${closedPort}`, status: 'unreachable', connections: 0, error: expect.stringContaining('ECONNREFUSED') }
+      ]);
+    } finally {
+      await handler.stop();
+      await other.close();
+    }
+  });
+
+  it('sends the endpoint token and rewrites forwarded WebSocket URLs', async () => {
+    server.requireToken('s3cret');
+    server.advertise('10.255.255.1:9222');
+    server.addTarget(target('a'));
+
+    endpoints = [{ host: '127.0.0.1', port: server.port, token: 'wrong' }];
+    await handler.reloadSettings();
+    expect(await handler.start(CONFIG)).toBe(false);
+    expect(handler.getEndpoints()[0]).toMatchObject({ status: 'unreachable', error: 'HTTP 401' });
+
+    endpoints = [{ host: '127.0.0.1', port: server.port, token: 's3cret' }];
+    expect(await handler.reloadSettings()).toBe(true);
+    expect(await handler.start(CONFIG)).toBe(true);
+    expect(server.getWindow('a').__autoRetryLoaded).toBe(true);
+  });
+
+  it('evicts connections when maxConnections is lowered', async () => {
+    server.addTarget(target('a'));
+    server.addTarget(target('b'));
+    await handler.start(CONFIG);
+
+    maxConnections = 1;
+    await handler.reloadSettings();
+
+    expect(handler.getConnectionCount()).toBe(1);
+  });
+
+  it('only connects to targets that pass the target filter', async () => {
+    targets = { ...DEFAULT_TARGET_FILTER, include: ['Window*', '/copilot/i'], exclude: ['markdown-preview'] };
+    server.addTarget(target('a'));
+    server.addTarget({ ...target('b'), title: 'Copilot Chat', type: 'webview' });
+    server.addTarget({ ...target('c'), url: 'vscode-webview://markdown-preview/index.html' });
+    server.addTarget({ ...target('d'), title: 'Settings' });
+    server.addTarget({ ...target('e'), type: 'iframe' });
+    await handler.reloadSettings();
+    await handler.start(CONFIG);
+
+    expect(handler.getConnectionCount()).toBe(2);
+    expect(handler.getTargets().map(t => [t.id, t.status, t.agent])).toEqual([
+      [server.pageId('b'), 'connected', true],
+      [server.pageId('a'), 'connected', false],
+      [server.pageId('c'), 'filtered', false],
+      [server.pageId('d'), 'filtered', false]
+    ]);
+    expect(server.commandsFor('c')).toHaveLength(0);
+  });
+
+  it('disconnects pages that a changed target filter excludes', async () => {
+    server.addTarget(target('a'));
+    server.addTarget(target('b'));
+    await handler.start(CONFIG);
+
+    targets = { ...DEFAULT_TARGET_FILTER, exclude: ['Window b'] };
+    expect(await handler.reloadSettings()).toBe(true);
+    await handler.start(CONFIG);
+
+    expect(handler.getConnectionCount()).toBe(1);
+    await vi.waitFor(() => expect(server.getWindow('b').__autoRetryLoaded).toBe(false));
+  });
+
+  it('keeps agent targets over generic ones when maxConnections is reached', async () => {
+    maxConnections = 1;
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+
+    server.addTarget({ ...target('chat'), title: 'Agent Chat' });
+    await handler.start(CONFIG);
+    expect(handler.getTargets().find(t => t.status === 'connected')?.id).toBe(server.pageId('chat'));
+
+    // A generic page never evicts the agent page
+    server.addTarget(target('b'));
+    await handler.start(CONFIG);
+    expect(handler.getTargets().find(t => t.status === 'connected')?.id).toBe(server.pageId('chat'));
+    expect(handler.getTargets().filter(t => t.status === 'available')).toHaveLength(2);
+  });
+
+  it('picks agent adapters per target and IDE and pushes changes to the page', async () => {
+    ide = 'Cursor';
+    await handler.reloadSettings();
+    server.addTarget({ ...target('a'), url: 'vscode-file://vscode-app/workbench.html' });
+    server.addTarget({ ...target('b'), title: 'Cline', url: 'vscode-webview://saoudrizwan.claude-dev/index.html', type: 'webview' });
+    await handler.start(CONFIG);
+
+    const adapterIds = (id: string) => handler.getTargets().find(t => t.id === server.pageId(id))?.adapters;
+    expect(adapterIds('a')).toEqual(['cursor-composer']);
+    expect(adapterIds('b')).toEqual(['cline']);
+    expect(server.getWindow('a').__autoRetryConfig.adapters.map((a: AgentAdapter) => a.id)).toEqual(['cursor-composer']);
+
+    adapters = mergeAdapters([{ id: 'cursor-composer', enabled: false }]);
+    expect(await handler.reloadSettings()).toBe(true);
+    await handler.start(CONFIG);
+
+    expect(adapterIds('a')).toEqual([]);
+    expect(server.getWindow('a').__autoRetryConfig.adapters).toEqual([]);
+    expect(server.commandsFor('a', 'Runtime.addBinding')).toHaveLength(1);
+  });
+
+  it('switches targets off and on for the session', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+    const id = server.pageId('a');
+
+    await handler.setTargetEnabled(id, false);
+    expect(handler.getConnectionCount()).toBe(0);
+    await handler.start(CONFIG);
+    expect(handler.getTargets()[0].status).toBe('disabled');
+
+    await handler.setTargetEnabled(id, true);
+    expect(handler.getConnectionCount()).toBe(1);
+    expect(server.getWindow('a').__autoRetryLoaded).toBe(true);
+  });
+
+  it('stops the script and closes every connection on stop', async () => {
+    server.addTarget(target('a'));
+    server.addTarget(target('b'));
+    await handler.start(CONFIG);
+
+    await handler.stop();
+
+    expect(handler.getConnectionCount()).toBe(0);
+    expect(handler.isRunning()).toBe(false);
+    expect(server.getWindow('a').__autoRetryGetHealth()).toMatchObject({ observerCount: 0, pollTimerActive: false });
+    expect(server.getWindow('b').__autoRetryLoaded).toBe(false);
+  });
+
+  it('does not hang when a page stops answering', async () => {
+    server.addTarget(target('a'));
+    await handler.start(CONFIG);
+    server.hang('Runtime.evaluate');
+
+    const stopped = handler.stop();
+    await expect(stopped).resolves.toBeUndefined();
+    expect(handler.getConnectionCount()).toBe(0);
+  }, 10000);
+});
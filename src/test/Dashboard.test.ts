@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { CDPEvent } from '../services/CDPHandler';
+import { computeDashboard } from '../services/Dashboard';
+
+const NOW = Date.UTC(2026, 2, 2, 12, 0);
+const MINUTE = 60 * 1000;
+
+function event(minutesAgo: number, overrides: Partial<CDPEvent> = {}): CDPEvent {
+  return { type: 'clicked', action: 'retry', pageId: 'page-1', pageTitle: 'Agent', errorText: 'Rate limit exceeded', timestamp: NOW - minutesAgo * MINUTE, ...overrides };
+}
+
+describe('computeDashboard', () => {
+  it('counts retries, accepts and blocked attempts per bucket and per page', () => {
+    const data = computeDashboard([
+      event(90),  // Outside the last hour
+      event(58),
+      event(50, { action: 'acceptAll', pageTitle: 'Editor' }),
+      event(40, { action: 'continue', errorText: 'Reached 25 tool calls' }),
+      event(30, { action: 'command', command: 'npm test' }),
+      event(3, { type: 'blocked', reason: 'banned-command' }),
+      event(2, { type: 'blocked', reason: 'accept-guard', guard: 'max-files' }),
+      event(1, { type: 'would-click' })
+    ], 'hour', NOW);
+
+    expect(data.totals).toEqual({ retries: 1, accepts: 1, continues: 1, commands: 1, blocked: 2, circuitOpen: 0, wouldClick: 1 });
+    expect(data.buckets).toHaveLength(12);
+    expect(data.buckets[0]).toMatchObject({ retries: 1, accepts: 0 });
+    expect(data.buckets[2]).toMatchObject({ accepts: 1 });
+    expect(data.buckets[11]).toMatchObject({ blocked: 2 });
+    expect(data.blockedReasons).toEqual({ 'banned-command': 1, 'max-files': 1 });
+    expect(data.pages.map(p => [p.title, p.retries, p.accepts, p.blocked])).toEqual([['Agent', 1, 0, 2], ['Editor', 0, 1, 0]]);
+  });
+
+  it('ranks error messages and computes the mean time between failures', () => {
+    const data = computeDashboard([
+      event(60 * 5, { errorText: 'Network error' }),
+      event(60 * 4),
+      event(60 * 3),
+      event(60 * 2)
+    ], 'day', NOW);
+
+    expect(data.topErrors).toEqual([{ message: 'Rate limit exceeded', count: 3 }, { message: 'Network error', count: 1 }]);
+    expect(data.meanTimeBetweenFailures).toBe(60 * MINUTE);
+    expect(computeDashboard([event(5)], 'day', NOW).meanTimeBetweenFailures).toBeUndefined();
+  });
+
+  it('measures the time between failures from the first retry of each error', () => {
+    const episode = (minutesAgo: number) => [1, 2, 3, 4].map(attempts => event(minutesAgo - attempts * 0.1, { attempts }));
+    const data = computeDashboard([...episode(60 * 6), ...episode(60 * 4), ...episode(60 * 2)], 'day', NOW);
+
+    expect(data.totals.retries).toBe(12);
+    expect(data.meanTimeBetweenFailures).toBe(120 * MINUTE);
+  });
+
+  it('finds the longest run of clicks without a human stepping in', () => {
+    const data = computeDashboard([
+      event(600),
+      event(500),
+      event(450, { type: 'circuit-open', attempts: 5 }),
+      event(400),
+      event(300, { action: 'acceptAll' }),
+      event(100),
+      event(90, { type: 'blocked', reason: 'non-retryable' }),
+      event(10)
+    ], 'day', NOW);
+
+    expect(data.longestUnattended).toEqual({ duration: 300 * MINUTE, clicks: 3 });
+  });
+});
@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CDPEvent } from '../services/CDPHandler';
+import { EscalationSettings, Escalator, runHook, toEscalation } from '../services/Escalation';
+
+function event(overrides: Partial<CDPEvent>): CDPEvent {
+  return { type: 'clicked', action: 'retry', pageId: '127.0.0.1:9222:page-1', pageTitle: 'Agent', timestamp: 1, category: 'rate-limit', ...overrides };
+}
+
+describe('toEscalation', () => {
+  it('escalates once when the retries on a panel reach the threshold', () => {
+    expect(toEscalation(event({ attempts: 2 }), 3)).toBeUndefined();
+    expect(toEscalation(event({ attempts: 3 }), 3)).toMatchObject({
+      kind: 'repeated-retries',
+      message: '3 consecutive retries [rate-limit] on "Agent"',
+      attempts: 3,
+      pageTitle: 'Agent'
+    });
+    expect(toEscalation(event({ attempts: 4 }), 3)).toBeUndefined();
+    expect(toEscalation(event({ attempts: 3 }), 0)).toBeUndefined();
+  });
+
+  it('escalates circuit-open, non-retryable and accept-guard events', () => {
+    expect(toEscalation(event({ type: 'circuit-open', attempts: 5 }), 3)?.kind).toBe('circuit-open');
+    expect(toEscalation(event({ type: 'blocked', reason: 'non-retryable' }), 3)?.kind).toBe('non-retryable');
+    expect(toEscalation(event({ type: 'blocked', action: 'acceptAll', reason: 'accept-guard', guard: 'max-files' }), 3)?.kind).toBe('accept-guard');
+    expect(toEscalation(event({ type: 'blocked', reason: 'banned-command' }), 3)).toBeUndefined();
+    expect(toEscalation(event({ action: 'acceptAll', attempts: 3 }), 3)).toBeUndefined();
+  });
+});
+
+describe('runHook', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'escalation-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('passes the escalation as JSON on stdin and its kind in the environment', async () => {
+    const out = path.join(dir, 'out.json');
+    const escalation = toEscalation(event({ type: 'circuit-open', attempts: 5 }), 3)!;
+    await runHook(`cat > "${out}" && echo "$IDE_AUTO_RETRY_EVENT" >> "${out}"`, escalation);
+
+    const [json, kind] = fs.readFileSync(out, 'utf8').trim().split('\n');
+    expect(JSON.parse(json)).toMatchObject({ kind: 'circuit-open', category: 'rate-limit', attempts: 5, pageTitle: 'Agent' });
+    expect(kind).toBe('circuit-open');
+  });
+
+  it('rejects on a non-zero exit or a timeout', async () => {
+    const escalation = toEscalation(event({ type: 'circuit-open' }), 3)!;
+    await expect(runHook('echo broken >&2; exit 3', escalation)).rejects.toThrow('exited with 3: broken');
+    await expect(runHook('sleep 5', escalation, 100)).rejects.toThrow('timed out after 100ms');
+  });
+});
+
+describe('Escalator', () => {
+  it('runs the hook only for the configured kinds and reports failures', async () => {
+    const settings: EscalationSettings = { retryThreshold: 3, hook: 'exit 1', hookEvents: ['circuit-open'] };
+    const onError = vi.fn();
+    const escalator = new Escalator(() => settings, onError);
+
+    expect(escalator.handle(event({ attempts: 3 }))?.kind).toBe('repeated-retries');
+    await escalator.flush();
+    expect(onError).not.toHaveBeenCalled();
+
+    escalator.handle(event({ type: 'circuit-open', attempts: 5 }));
+    await escalator.flush();
+    expect(onError).toHaveBeenCalledWith('Escalation hook failed (circuit-open): exited with 1');
+  });
+});
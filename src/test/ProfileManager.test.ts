@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Settings per scope, read through a minimal WorkspaceConfiguration, and the extension's workspace state
+const settings = vi.hoisted(() => ({
+  global: {} as Record<string, unknown>,
+  workspace: {} as Record<string, unknown>,
+  state: {} as Record<string, unknown>,
+  updates: [] as { key: string; value: unknown; target: number }[]
+}));
+
+vi.mock('vscode', () => ({
+  ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+  workspace: {
+    getConfiguration: () => ({
+      get: (key: string, defaultValue?: unknown) => settings.workspace[key] ?? settings.global[key] ?? defaultValue,
+      inspect: (key: string) => ({ key, globalValue: settings.global[key], workspaceValue: settings.workspace[key] }),
+      update: async (key: string, value: unknown, target: number) => {
+        settings.updates.push({ key, value, target });
+        const scope = target === 1 ? settings.global : settings.workspace;
+        if (value === undefined) delete scope[key];
+        else scope[key] = value;
+      }
+    })
+  }
+}));
+
+import * as vscode from 'vscode';
+import { DEFAULT_PROFILES, ProfileManager } from '../services/ProfileManager';
+
+const workspaceState = {
+  keys: () => Object.keys(settings.state),
+  get: (key: string) => settings.state[key],
+  update: async (key: string, value: unknown) => {
+    settings.state[key] = value;
+  }
+} as vscode.Memento;
+
+describe('ProfileManager', () => {
+  let profiles: ProfileManager;
+
+  beforeEach(() => {
+    settings.global = {};
+    settings.workspace = {};
+    settings.state = {};
+    settings.updates = [];
+    profiles = new ProfileManager('Cursor', workspaceState);
+  });
+
+  describe('getActiveProfile', () => {
+    it('resolves workspace > IDE > user, skipping unknown names', () => {
+      expect(profiles.getActiveProfile()).toBeUndefined();
+
+      settings.global.activeProfile = 'strict';
+      expect(profiles.getActiveProfile()).toEqual({ name: 'strict', scope: 'global' });
+
+      settings.global.ideProfiles = { Cursor: 'pairing', 'VS Code': 'overnight' };
+      expect(profiles.getActiveProfile()).toEqual({ name: 'pairing', scope: 'ide' });
+
+      settings.state['ideAutoRetry.activeProfile'] = 'overnight';
+      expect(profiles.getActiveProfile()).toEqual({ name: 'overnight', scope: 'workspace' });
+
+      settings.state['ideAutoRetry.activeProfile'] = 'missing';
+      expect(profiles.getActiveProfile()).toEqual({ name: 'pairing', scope: 'ide' });
+    });
+
+    it('uses user-defined profiles instead of the defaults', () => {
+      settings.global.profiles = { night: { acceptAll: true } };
+      settings.global.activeProfile = 'overnight';
+      expect(profiles.getActiveProfile()).toBeUndefined();
+
+      settings.global.activeProfile = 'night';
+      expect(profiles.getActiveProfile()).toEqual({ name: 'night', scope: 'global' });
+    });
+  });
+
+  describe('get', () => {
+    it('takes the active profile override for profile settings only', () => {
+      settings.global.maxRetryAttempts = 5;
+      settings.global.endpoints = ['127.0.0.1:9222'];
+      settings.global.profiles = { ...DEFAULT_PROFILES, strict: { ...DEFAULT_PROFILES.strict, endpoints: [] } };
+      expect(profiles.get('maxRetryAttempts', 3)).toBe(5);
+
+      settings.global.activeProfile = 'strict';
+      expect(profiles.get('maxRetryAttempts', 3)).toBe(1);
+      expect(profiles.get('endpoints', [])).toEqual(['127.0.0.1:9222']);
+      expect(profiles.get('cooldown', 5000)).toBe(5000);
+    });
+
+    it('lets a profile bundle its own command blocklist', () => {
+      settings.global.bannedCommands = ['rm -rf /'];
+      settings.global.profiles = { paranoid: { bannedCommands: ['rm -rf /', 'git push'], allowedCommands: [] } };
+      settings.global.activeProfile = 'paranoid';
+
+      expect(profiles.get('bannedCommands', [])).toEqual(['rm -rf /', 'git push']);
+      expect(profiles.get('allowedCommands', ['npm test'])).toEqual([]);
+    });
+  });
+
+  describe('update', () => {
+    it('writes into the active profile when it overrides the key', async () => {
+      settings.global.activeProfile = 'overnight';
+      await profiles.update('acceptAll', false);
+
+      expect(settings.updates).toEqual([{ key: 'profiles', value: expect.any(Object), target: 1 }]);
+      expect((settings.global.profiles as typeof DEFAULT_PROFILES).overnight).toEqual({ ...DEFAULT_PROFILES.overnight, acceptAll: false });
+      expect(profiles.get('acceptAll', true)).toBe(false);
+    });
+
+    it('drops the override when the value is undefined', async () => {
+      settings.global.activeProfile = 'overnight';
+      await profiles.update('acceptAll', undefined);
+
+      expect((settings.global.profiles as typeof DEFAULT_PROFILES).overnight).not.toHaveProperty('acceptAll');
+    });
+
+    it('falls back to user settings without an override or for non-profile settings', async () => {
+      await profiles.update('acceptAll', true);
+      settings.global.activeProfile = 'overnight';
+      settings.global.profiles = { ...DEFAULT_PROFILES, overnight: { ...DEFAULT_PROFILES.overnight, endpoints: [] } };
+      await profiles.update('dryRun', true);
+      await profiles.update('endpoints', ['127.0.0.1:9333']);
+
+      expect(settings.updates.map(u => [u.key, u.value, u.target])).toEqual([
+        ['acceptAll', true, 1],
+        ['dryRun', true, 1],
+        ['endpoints', ['127.0.0.1:9333'], 1]
+      ]);
+    });
+  });
+
+  describe('setActiveProfile', () => {
+    it('keeps the workspace choice in workspace state and the others in user settings', async () => {
+      await profiles.setActiveProfile('pairing', 'workspace');
+      await profiles.setActiveProfile('strict', 'ide');
+      await profiles.setActiveProfile(undefined, 'global');
+
+      expect(settings.state).toEqual({ 'ideAutoRetry.activeProfile': 'pairing' });
+      expect(settings.updates.map(u => [u.key, u.value, u.target])).toEqual([
+        ['ideProfiles', { Cursor: 'strict' }, 1],
+        ['activeProfile', undefined, 1]
+      ]);
+      expect(profiles.getActiveProfile()).toEqual({ name: 'pairing', scope: 'workspace' });
+
+      await profiles.setActiveProfile(undefined, 'workspace');
+      expect(profiles.getActiveProfile()).toEqual({ name: 'strict', scope: 'ide' });
+    });
+  });
+});
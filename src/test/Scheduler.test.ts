@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isInWindow, parseScheduleWindow, ScheduleSettings, Scheduler } from '../services/Scheduler';
+
+// Local-time dates; 2026-03-02 is a Monday
+function at(day: number, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2026, 2, 2 + day, hours, minutes);
+}
+
+describe('parseScheduleWindow', () => {
+  it('parses day lists, day ranges and times', () => {
+    const window = parseScheduleWindow('mon-wed,sat 18:30-23:00');
+    expect([...window.days].sort()).toEqual([1, 2, 3, 6]);
+    expect(window).toMatchObject({ from: 18 * 60 + 30, to: 23 * 60 });
+  });
+
+  it('defaults to every day and the whole day', () => {
+    expect([...parseScheduleWindow('22:00-06:00').days]).toHaveLength(7);
+    expect(parseScheduleWindow('sun')).toMatchObject({ from: 0, to: 24 * 60 });
+  });
+
+  it('wraps day ranges over the weekend', () => {
+    expect([...parseScheduleWindow('fri-mon').days].sort()).toEqual([0, 1, 5, 6]);
+  });
+
+  it('rejects unknown days and invalid times', () => {
+    expect(() => parseScheduleWindow('someday 10:00-11:00')).toThrow(/Unknown day "someday"/);
+    expect(() => parseScheduleWindow('mon 25:00-26:00')).toThrow(/Invalid time "25:00"/);
+    expect(() => parseScheduleWindow('mon 10:00')).toThrow(/Invalid time range/);
+  });
+});
+
+describe('isInWindow', () => {
+  it('matches the days and the half-open time range', () => {
+    const window = parseScheduleWindow('mon-fri 09:00-17:00');
+    expect(isInWindow(window, at(0, '09:00'))).toBe(true);
+    expect(isInWindow(window, at(0, '17:00'))).toBe(false);
+    expect(isInWindow(window, at(5, '12:00'))).toBe(false);
+  });
+
+  it('attributes the hours after midnight to the previous day', () => {
+    const window = parseScheduleWindow('fri 22:00-06:00');
+    expect(isInWindow(window, at(4, '23:00'))).toBe(true);
+    expect(isInWindow(window, at(5, '05:59'))).toBe(true);
+    expect(isInWindow(window, at(5, '23:00'))).toBe(false);
+    expect(isInWindow(window, at(4, '05:00'))).toBe(false);
+  });
+});
+
+describe('Scheduler', () => {
+  let now: number;
+  let settings: ScheduleSettings;
+  let onChange: ReturnType<typeof vi.fn>;
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    now = at(0, '12:00').getTime();
+    settings = { windows: [], idleMinutes: 0 };
+    onChange = vi.fn();
+    scheduler = new Scheduler(() => settings, onChange, () => now);
+  });
+
+  afterEach(() => scheduler.dispose());
+
+  it('stays disabled without windows or idle detection', () => {
+    scheduler.reload();
+    expect(scheduler.isEnabled()).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('starts inside a window and stops when it ends', () => {
+    settings.windows = ['mon 11:00-13:00'];
+    scheduler.reload();
+    expect(onChange).toHaveBeenLastCalledWith(true, 'inside window "mon 11:00-13:00"');
+
+    now = at(0, '13:00').getTime();
+    scheduler.evaluate();
+    expect(onChange).toHaveBeenLastCalledWith(false, 'outside the time windows');
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not stop anything when launched outside the schedule', () => {
+    settings.windows = ['mon 18:00-08:00'];
+    scheduler.reload();
+    scheduler.evaluate();
+    expect(onChange).not.toHaveBeenCalled();
+    expect(scheduler.getState()).toMatchObject({ enabled: true, active: false });
+  });
+
+  it('starts after the idle period and stops on the next activity', () => {
+    settings.idleMinutes = 10;
+    scheduler.reload();
+
+    now += 9 * 60000;
+    scheduler.evaluate();
+    expect(onChange).not.toHaveBeenCalled();
+
+    now += 60000;
+    scheduler.evaluate();
+    expect(onChange).toHaveBeenLastCalledWith(true, 'idle for 10 min');
+
+    scheduler.recordActivity();
+    expect(onChange).toHaveBeenLastCalledWith(false, 'user active 0 min ago');
+  });
+
+  it('calls back again on the next evaluation after retryTransition', () => {
+    settings.idleMinutes = 10;
+    scheduler.reload();
+    now += 10 * 60000;
+    scheduler.evaluate();
+    scheduler.evaluate();
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    scheduler.retryTransition();
+    scheduler.evaluate();
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith(true, 'idle for 10 min');
+  });
+
+  it('reports invalid windows and keeps the valid ones', () => {
+    settings.windows = ['mon 11:00-13:00', 'weekdays'];
+    scheduler.reload();
+    expect(scheduler.getState()).toMatchObject({
+      active: true,
+      errors: ['Unknown day "weekdays" in "weekdays"']
+    });
+  });
+});
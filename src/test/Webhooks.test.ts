@@ -0,0 +1,96 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CDPEvent } from '../services/CDPHandler';
+import { renderTemplate, SIGNATURE_HEADER, signBody, WebhookConfig, WebhookDispatcher } from '../services/Webhooks';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+function event(overrides: Partial<CDPEvent> = {}): CDPEvent {
+  return { type: 'clicked', action: 'retry', pageId: 'page-1', pageTitle: 'Agent', buttonText: 'Retry', category: 'network', timestamp: 1, ...overrides };
+}
+
+describe('renderTemplate', () => {
+  it('fills placeholders and replaces "{{events}}" with the events', () => {
+    const events = [event(), event({ type: 'circuit-open' })];
+    expect(renderTemplate({ text: '{{count}} events:\n{{summary}}', n: '{{count}}', list: ['{{events}}'], keep: true }, events)).toEqual({
+      text: '2 events:\nclicked "Retry" [network] on Agent\ncircuit-open "Retry" [network] on Agent',
+      n: 2,
+      list: [events],
+      keep: true
+    });
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let responses: number[];  // Status codes to answer with, then 200
+  let webhooks: WebhookConfig[];
+  let onError: ReturnType<typeof vi.fn>;
+  let dispatcher: WebhookDispatcher;
+
+  beforeEach(async () => {
+    received = [];
+    responses = [];
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    webhooks = [{ url }];
+    onError = vi.fn();
+    dispatcher = new WebhookDispatcher(() => webhooks, onError, { batchDelay: 50, retryDelay: 10 });
+  });
+
+  afterEach(async () => {
+    await dispatcher.flush();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('batches matching events into one signed POST', async () => {
+    webhooks = [{ url, secret: 's3cret', headers: { 'X-Team': 'agents' } }];
+    dispatcher.enqueue([event(), event({ type: 'health' }), event({ type: 'would-click' })]);
+    dispatcher.enqueue([event({ type: 'disconnected' })]);
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [request] = received;
+    const body = JSON.parse(request.body);
+    expect(body).toMatchObject({ source: 'ide-auto-retry', count: 2 });
+    expect(body.events.map((e: CDPEvent) => e.type)).toEqual(['clicked', 'disconnected']);
+    expect(request.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(signBody('s3cret', request.body));
+    expect(request.headers['x-team']).toBe('agents');
+  });
+
+  it('applies the event filter and the body template', async () => {
+    webhooks = [{ url, events: ['circuit-open'], template: { text: 'IDE Auto Retry: {{summary}}' } }];
+    dispatcher.enqueue([event(), event({ type: 'circuit-open' })]);
+    await dispatcher.flush();
+
+    expect(received.map(r => JSON.parse(r.body))).toEqual([{ text: 'IDE Auto Retry: circuit-open "Retry" [network] on Agent' }]);
+  });
+
+  it('retries server errors and reports a delivery that keeps failing', async () => {
+    responses = [503, 500];
+    dispatcher.enqueue([event()]);
+    await dispatcher.flush();
+    expect(received).toHaveLength(3);
+    expect(onError).not.toHaveBeenCalled();
+
+    responses = [400];
+    dispatcher.enqueue([event()]);
+    await dispatcher.flush();
+    expect(received).toHaveLength(4);
+    expect(onError).toHaveBeenCalledWith(`Webhook ${url} failed, dropped 1 event(s) after 1 attempt(s): HTTP 400`);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * FakeCDPServer - Local stand-in for an IDE launched with --remote-debugging-port
+ *
+ * Serves /json/list over HTTP and speaks the subset of the CDP WebSocket protocol
+ * the handler uses. Each target is backed by a jsdom window, so Runtime.evaluate
+ * really runs the injected script and Runtime.addBinding really pushes
+ * Runtime.bindingCalled events back over the socket.
+ */
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { JSDOM, DOMWindow } from 'jsdom';
+import { WebSocketServer, WebSocket } from 'ws';
+import { prepareWindow } from './loadInjectScript';
+
+export interface FakeTarget {
+  id: string;
+  title?: string;
+  url?: string;
+  type?: string;
+  html?: string;
+}
+
+export interface ReceivedCommand {
+  targetId: string;
+  method: string;
+  params: any;
+}
+
+interface TargetState {
+  target: FakeTarget;
+  dom: JSDOM;
+  sockets: Set<WebSocket>;
+  bindings: Map<WebSocket, Set<string>>;  // Bindings survive navigation, like in Chromium
+}
+
+export class FakeCDPServer {
+  readonly received: ReceivedCommand[] = [];
+  private readonly server: http.Server;
+  private readonly wss: WebSocketServer;
+  private readonly targets: Map<string, TargetState> = new Map();
+  private readonly hungMethods: Set<string> = new Set();
+  private readonly failingMethods: Set<string> = new Set();
+  private token?: string;
+  private advertisedHost?: string;
+
+  private constructor() {
+    this.server = http.createServer((req, res) => this.handleHttp(req, res));
+    this.wss = new WebSocketServer({ server: this.server, verifyClient: ({ req }: { req: http.IncomingMessage }) => this.isAuthorized(req) });
+    this.wss.on('connection', (ws, req) => this.handleSocket(ws, req));
+  }
+
+  /**
+   * Start a server with the given targets, on a random local port unless one is given
+   */
+  static async start(targets: FakeTarget[] = [], port: number = 0): Promise<FakeCDPServer> {
+    const server = new FakeCDPServer();
+    targets.forEach(target => server.addTarget(target));
+    await new Promise<void>(resolve => server.server.listen(port, '127.0.0.1', resolve));
+    return server;
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Handler-side connection id for a target
+   */
+  pageId(targetId: string): string {
+    return `127.0.0.1:${this.port}:${targetId}`;
+  }
+
+  /**
+   * Refuse discovery and sockets without an "Authorization: Bearer <token>" header
+   */
+  requireToken(token: string): void {
+    this.token = token;
+  }
+
+  /**
+   * List WebSocket URLs with another host:port, like a browser behind a port forward
+   */
+  advertise(host: string): void {
+    this.advertisedHost = host;
+  }
+
+  addTarget(target: FakeTarget): void {
+    this.targets.set(target.id, { target, dom: this.createDom(target.html), sockets: new Set(), bindings: new Map() });
+  }
+
+  /**
+   * Load a new document into a target (like a reload) and send the navigation events
+   */
+  navigate(id: string, html?: string): void {
+    const state = this.targets.get(id);
+    if (!state) throw new Error(`Unknown target ${id}`);
+
+    state.dom.window.close();
+    state.dom = this.createDom(html ?? state.target.html);
+    for (const ws of state.sockets) {
+      for (const name of state.bindings.get(ws) ?? []) {
+        this.defineBinding(state, ws, name);
+      }
+      this.sendEvent(ws, 'Runtime.executionContextsCleared', {});
+      this.sendEvent(ws, 'Page.frameNavigated', { frame: { id: id, url: 'https://localhost/' } });
+    }
+  }
+
+  /**
+   * Drop the sockets of a target but keep it listed (like a renderer hiccup)
+   */
+  dropConnections(id: string): void {
+    this.targets.get(id)?.sockets.forEach(ws => ws.terminate());
+  }
+
+  /**
+   * Remove a target from /json/list and drop its sockets (like closing a window)
+   */
+  removeTarget(id: string): void {
+    const state = this.targets.get(id);
+    if (!state) return;
+    state.sockets.forEach(ws => ws.terminate());
+    state.dom.window.close();
+    this.targets.delete(id);
+  }
+
+  getWindow(id: string): DOMWindow & Record<string, any> {
+    const state = this.targets.get(id);
+    if (!state) throw new Error(`Unknown target ${id}`);
+    return state.dom.window;
+  }
+
+  /**
+   * Stop answering a CDP method (to exercise timeouts)
+   */
+  hang(method: string): void {
+    this.hungMethods.add(method);
+  }
+
+  /**
+   * Answer a CDP method with a protocol error (like an older or locked-down target)
+   */
+  fail(method: string): void {
+    this.failingMethods.add(method);
+  }
+
+  commandsFor(targetId: string, method?: string): ReceivedCommand[] {
+    return this.received.filter(c => c.targetId === targetId && (!method || c.method === method));
+  }
+
+  async close(): Promise<void> {
+    for (const id of [...this.targets.keys()]) {
+      this.removeTarget(id);
+    }
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private createDom(html?: string): JSDOM {
+    const dom = new JSDOM(html ?? '<body></body>', { url: 'https://localhost/', runScripts: 'outside-only', pretendToBeVisual: true });
+    prepareWindow(dom.window);
+    return dom;
+  }
+
+  private defineBinding(state: TargetState, ws: WebSocket, name: string): void {
+    (state.dom.window as any)[name] = (payload: string) => {
+      this.sendEvent(ws, 'Runtime.bindingCalled', { name, payload, executionContextId: 1 });
+    };
+  }
+
+  private sendEvent(ws: WebSocket, method: string, params: object): void {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ method, params }));
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    return !this.token || req.headers.authorization === `Bearer ${this.token}`;
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!this.isAuthorized(req)) {
+      res.statusCode = 401;
+      res.end();
+      return;
+    }
+    if (req.url !== '/json/list' && req.url !== '/json') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    const list = [...this.targets.values()].map(({ target }) => ({
+      id: target.id,
+      type: target.type ?? 'page',
+      title: target.title ?? target.id,
+      url: target.url ?? `vscode-file://vscode-app/${target.id}.html`,
+      webSocketDebuggerUrl: `ws://${this.advertisedHost ?? `127.0.0.1:${this.port}`}/devtools/page/${target.id}`
+    }));
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(list));
+  }
+
+  private handleSocket(ws: WebSocket, req: http.IncomingMessage): void {
+    const targetId = (req.url ?? '').split('/').pop() ?? '';
+    const state = this.targets.get(targetId);
+    if (!state) {
+      ws.close();
+      return;
+    }
+    state.sockets.add(ws);
+    ws.on('close', () => {
+      state.sockets.delete(ws);
+      state.bindings.delete(ws);
+    });
+
+    ws.on('message', (data) => {
+      const msg = JSON.parse(data.toString());
+      this.received.push({ targetId, method: msg.method, params: msg.params });
+      if (this.hungMethods.has(msg.method)) return;
+
+      const reply = (payload: object) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify({ id: msg.id, ...payload }));
+      };
+
+      try {
+        reply({ result: this.execute(state, ws, msg.method, msg.params ?? {}) });
+      } catch (e: any) {
+        reply({ error: { code: -32000, message: e.message } });
+      }
+    });
+  }
+
+  private execute(state: TargetState, ws: WebSocket, method: string, params: any): object {
+    const window = state.dom.window as any;
+    if (this.failingMethods.has(method)) {
+      throw new Error(`'${method}' wasn't found`);
+    }
+
+    switch (method) {
+      case 'Runtime.enable':
+      case 'Page.enable':
+        return {};
+      case 'Page.captureScreenshot':
+        return { data: Buffer.from(JSON.stringify(params.clip)).toString('base64') };
+      case 'Runtime.addBinding': {
+        const names = state.bindings.get(ws) ?? new Set<string>();
+        names.add(params.name);
+        state.bindings.set(ws, names);
+        this.defineBinding(state, ws, params.name);
+        return {};
+      }
+      case 'Runtime.evaluate': {
+        try {
+          const value = window.eval(params.expression);
+          // Like CDP without returnByValue, objects come back as a reference only
+          if (value === undefined) return { result: { type: 'undefined' } };
+          if (value !== null && typeof value === 'object') return { result: { type: 'object', objectId: '1' } };
+          return { result: { type: typeof value, value } };
+        } catch (e: any) {
+          return { result: { type: 'object', subtype: 'error', description: e.message }, exceptionDetails: { text: e.message } };
+        }
+      }
+      default:
+        throw new Error(`'${method}' wasn't found`);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Helpers to run the injected script against HTML fixtures in jsdom
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSDOM, DOMWindow } from 'jsdom';
+import { CDPConfig, CDPEvent, CDPHandler } from '../../services/CDPHandler';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+export interface LoadedPage {
+  window: DOMWindow & Record<string, any>;
+  events: CDPEvent[];
+  clicked: Element[];
+  /** Run one detection cycle (the poll interval is disabled in tests) */
+  runCycle(): void;
+  /** Move the page clock forward (the script reads time via Date.now) */
+  advance(ms: number): void;
+  close(): void;
+}
+
+export function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+/**
+ * jsdom has no layout: give every rendered element a non-empty box so visibility checks
+ * pass, and an empty one when it or an ancestor is display: none (as a browser would)
+ */
+export function prepareWindow(window: DOMWindow): void {
+  window.HTMLElement.prototype.getBoundingClientRect = function (this: HTMLElement) {
+    let rendered = true;
+    for (let el: Element | null = this; el; el = el.parentElement) {
+      if (window.getComputedStyle(el).display === 'none') rendered = false;
+    }
+    const width = rendered ? 80 : 0;
+    const height = rendered ? 20 : 0;
+    return { x: 0, y: 0, top: 0, left: 0, right: width, bottom: height, width, height, toJSON: () => ({}) };
+  };
+}
+
+/**
+ * Load HTML into jsdom, inject the script and start it
+ * Every click on any element is recorded in `clicked`; events pushed via the binding in `events`.
+ */
+export function loadInjectScript(html: string, config: CDPConfig = {}): LoadedPage {
+  const dom = new JSDOM(html, { url: 'https://localhost/', runScripts: 'outside-only', pretendToBeVisual: true });
+  const window = dom.window;
+  prepareWindow(window);
+
+  let now = Date.now();
+  (window as any).Date.now = () => now;
+
+  const events: CDPEvent[] = [];
+  const clicked: Element[] = [];
+  (window as any).__autoRetryEmit = (payload: string) => events.push(JSON.parse(payload));
+  window.document.addEventListener('click', (e) => {
+    if (e.target && !clicked.includes(e.target as Element)) clicked.push(e.target as Element);
+  }, true);
+
+  const script = new CDPHandler().getInjectScript(config);
+  window.eval(script);
+  (window as any).__autoRetryStart({ ...config, pollInterval: 60 * 60 * 1000 });
+
+  return {
+    window,
+    events,
+    clicked,
+    runCycle: () => (window as any).__autoRetryStart(),
+    advance: (ms: number) => { now += ms; },
+    close: () => {
+      (window as any).__autoRetryStop();
+      window.close();
+    }
+  };
+}
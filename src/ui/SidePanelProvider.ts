@@ -4,7 +4,11 @@
  */
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { AutoRetryService } from '../services/AutoRetryService';
+import { DEFAULT_APPROVED_COMMANDS, DEFAULT_BANNED_COMMANDS } from '../services/CDPHandler';
+import { DashboardRange } from '../services/Dashboard';
 
 export class SidePanelProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'ideAutoRetry.mainPanel';
@@ -58,18 +62,68 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
         case 'setAcceptAll':
           await this.handleSetAcceptAll(message.data?.enabled ?? false);
           break;
+        case 'setAutoContinue':
+          await this.handleSetAutoContinue(message.data?.enabled ?? false);
+          break;
+        case 'setDryRun':
+          await this.handleSetDryRun(message.data?.enabled ?? false);
+          break;
+        case 'setBannedCommands':
+          await this.handleSetCommandPatterns('bannedCommands', message.data?.patterns ?? []);
+          break;
+        case 'setAllowedCommands':
+          await this.handleSetCommandPatterns('allowedCommands', message.data?.patterns ?? []);
+          break;
+        case 'setApprovedCommands':
+          await this.handleSetCommandPatterns('approvedCommands', message.data?.patterns ?? []);
+          break;
+        case 'setCommandApproval':
+          await this.handleSetCommandApproval(message.data?.enabled ?? false);
+          break;
+        case 'resetBannedCommands':
+          await this.handleSetCommandPatterns('bannedCommands', undefined);
+          break;
+        case 'acknowledgeAttention':
+          this._autoRetryService.acknowledgeAttention();
+          break;
         case 'getStatus':
-          this.sendStatus();
-          this.sendAutoStartSetting();
-          this.sendAcceptAllSetting();
-          this.sendMaxConnectionsSetting();
+          this.refreshSettings();
           break;
         case 'getStats':
           await this.sendStats();
           break;
+        case 'getDashboard':
+          await this.sendDashboard(message.data?.range ?? 'day');
+          break;
+        case 'getRecentErrors':
+          await this.sendRecentErrors();
+          break;
+        case 'getErrorSnapshot':
+          await this.sendErrorSnapshot(message.data?.id ?? '');
+          break;
+        case 'exportRecentErrors':
+          await this.handleExportRecentErrors();
+          break;
+        case 'clearRecentErrors':
+          await this._autoRetryService.clearErrorSnapshots();
+          await this.sendRecentErrors();
+          break;
         case 'setMaxConnections':
           await this.handleSetMaxConnections(message.data?.value ?? 10);
           break;
+        case 'setProfile':
+          await this.handleSetProfile(message.data?.name || undefined);
+          break;
+        case 'setScheduleWindows':
+          await this.handleSetSchedule('scheduleWindows', message.data?.patterns ?? []);
+          break;
+        case 'setIdleMinutes':
+          await this.handleSetSchedule('idleMinutes', message.data?.value ?? 0);
+          break;
+        case 'setTargetEnabled':
+          await this._autoRetryService.setTargetEnabled(message.data?.id, message.data?.enabled ?? true);
+          this.sendTargets();
+          break;
       }
     });
   }
@@ -107,6 +161,24 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
    */
   public updateStatus(): void {
     this.sendStatus();
+    this.sendTargets();
+    this.sendScheduleSetting();
+  }
+
+  /**
+   * Send status and all settings (called on load and when settings change)
+   */
+  public refreshSettings(): void {
+    this.sendStatus();
+    this.sendTargets();
+    this.sendProfileSetting();
+    this.sendAutoStartSetting();
+    this.sendAcceptAllSetting();
+    this.sendAutoContinueSetting();
+    this.sendDryRunSetting();
+    this.sendCommandPatternsSetting();
+    this.sendMaxConnectionsSetting();
+    this.sendScheduleSetting();
   }
 
   /**
@@ -166,7 +238,7 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
    */
   private async handleToggle(): Promise<void> {
     const status = this._autoRetryService.getStatus();
-    if (status.running) {
+    if (status.running || status.reconnecting) {
       await this.handleStop();
     } else {
       await this.handleStart();
@@ -200,11 +272,66 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
    * Handle set accept all setting from webview
    */
   private async handleSetAcceptAll(enabled: boolean): Promise<void> {
-    const config = vscode.workspace.getConfiguration('ideAutoRetry');
-    await config.update('acceptAll', enabled, vscode.ConfigurationTarget.Global);
+    await this._autoRetryService.updateSetting('acceptAll', enabled);
     this.sendLog(enabled ? 'Accept All enabled' : 'Accept All disabled', 'info');
   }
 
+  /**
+   * Handle set auto-continue setting from webview
+   */
+  private async handleSetAutoContinue(enabled: boolean): Promise<void> {
+    await this._autoRetryService.updateSetting('autoContinue', enabled);
+    this.sendLog(enabled ? 'Auto Continue enabled' : 'Auto Continue disabled', 'info');
+  }
+
+  /**
+   * Handle set dry-run setting from webview
+   */
+  private async handleSetDryRun(enabled: boolean): Promise<void> {
+    await this._autoRetryService.updateSetting('dryRun', enabled);
+    this.sendLog(enabled ? 'Dry run enabled - nothing will be clicked' : 'Dry run disabled', 'info');
+  }
+
+  /**
+   * Handle banned/allowed command pattern edits from webview
+   * undefined resets the setting to its default list
+   */
+  private async handleSetCommandPatterns(key: 'bannedCommands' | 'allowedCommands' | 'approvedCommands', patterns: string[] | undefined): Promise<void> {
+    await this._autoRetryService.updateSetting(key, patterns);
+    this.sendLog(patterns ? `${key} updated (${patterns.length} patterns)` : `${key} reset to defaults`, 'info');
+    this.sendCommandPatternsSetting();
+  }
+
+  /**
+   * Handle set command approval setting from webview
+   */
+  private async handleSetCommandApproval(enabled: boolean): Promise<void> {
+    await this._autoRetryService.updateSetting('commandApproval', enabled);
+    this.sendLog(enabled ? 'Command approval enabled' : 'Command approval disabled', 'info');
+    this.sendCommandPatternsSetting();
+  }
+
+  /**
+   * Handle profile switch from webview
+   * Keeps the scope the current profile was chosen in (this workspace when a folder is open)
+   */
+  private async handleSetProfile(name: string | undefined): Promise<void> {
+    const scope = this._autoRetryService.getActiveProfile()?.scope
+      ?? (vscode.workspace.workspaceFolders ? 'workspace' : 'global');
+    await this._autoRetryService.setActiveProfile(name, scope);
+    this.refreshSettings();
+    this.sendLog(name ? `Profile "${name}" activated (${scope})` : `Profile cleared (${scope})`, 'info');
+  }
+
+  /**
+   * Handle schedule window / idle minutes edits from webview
+   */
+  private async handleSetSchedule(key: 'scheduleWindows' | 'idleMinutes', value: string[] | number): Promise<void> {
+    const config = vscode.workspace.getConfiguration('ideAutoRetry');
+    await config.update(key, value, vscode.ConfigurationTarget.Global);
+    this.sendLog(Array.isArray(value) ? `Schedule updated (${value.length} windows)` : `Idle start set to ${value} min`, 'info');
+  }
+
   /**
    * Handle set max connections setting from webview
    */
@@ -225,8 +352,12 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
       type: 'status',
       data: {
         running: status.running,
+        reconnecting: status.reconnecting,
+        attention: status.attention ?? '',
         clicks: status.clicks,
         acceptAllClicks: status.acceptAllClicks,
+        continueClicks: status.continueClicks,
+        wouldClick: status.wouldClick,
         connectionCount: status.connectionCount,
         cdpPort: this._autoRetryService.getCDPPort()
       }
@@ -245,6 +376,64 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /**
+   * Send dashboard data for a range to webview
+   */
+  private async sendDashboard(range: DashboardRange): Promise<void> {
+    if (!this._view) return;
+    const dashboard = await this._autoRetryService.getDashboard(range);
+    this._view.webview.postMessage({
+      type: 'dashboard',
+      data: {
+        dashboard,
+        auditLog: vscode.workspace.getConfiguration('ideAutoRetry').get('auditLog', true)
+      }
+    });
+  }
+
+  /**
+   * Send captured error snapshots (without screenshots) to webview
+   */
+  private async sendRecentErrors(): Promise<void> {
+    if (!this._view) return;
+    const errors = await this._autoRetryService.getErrorSnapshots();
+    this._view.webview.postMessage({
+      type: 'recentErrors',
+      data: {
+        errors,
+        capture: vscode.workspace.getConfiguration('ideAutoRetry').get('captureSnapshots', true)
+      }
+    });
+  }
+
+  /**
+   * Send one error snapshot with its screenshot to webview
+   */
+  private async sendErrorSnapshot(id: string): Promise<void> {
+    if (!this._view) return;
+    const snapshot = await this._autoRetryService.getErrorSnapshot(id);
+    this._view.webview.postMessage({ type: 'errorSnapshot', data: { id, snapshot } });
+  }
+
+  /**
+   * Ask where to save the captured error snapshots and export them as JSON
+   */
+  private async handleExportRecentErrors(): Promise<void> {
+    const date = new Date().toISOString().slice(0, 10);
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(path.join(os.homedir(), `auto-retry-errors-${date}.json`)),
+      filters: { JSON: ['json'] }
+    });
+    if (!uri) return;
+
+    try {
+      const count = await this._autoRetryService.exportErrorSnapshots(uri.fsPath);
+      this.sendLog(`Exported ${count} error snapshot(s) to ${uri.fsPath}`, 'success');
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to export recent errors: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Send auto-start setting to webview
    */
@@ -263,14 +452,96 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
    */
   private sendAcceptAllSetting(): void {
     if (!this._view) return;
-    const config = vscode.workspace.getConfiguration('ideAutoRetry');
-    const enabled = config.get('acceptAll', false);
+    const enabled = this._autoRetryService.getSetting('acceptAll', false);
     this._view.webview.postMessage({
       type: 'acceptAllSetting',
       data: { enabled }
     });
   }
 
+  /**
+   * Send auto-continue setting to webview (with the cap, for the label)
+   */
+  private sendAutoContinueSetting(): void {
+    if (!this._view) return;
+    this._view.webview.postMessage({
+      type: 'autoContinueSetting',
+      data: {
+        enabled: this._autoRetryService.getSetting('autoContinue', false),
+        maxConsecutive: this._autoRetryService.getSetting<number>('maxConsecutiveContinues', 10)
+      }
+    });
+  }
+
+  /**
+   * Send dry-run setting to webview
+   */
+  private sendDryRunSetting(): void {
+    if (!this._view) return;
+    const enabled = this._autoRetryService.getSetting('dryRun', false);
+    this._view.webview.postMessage({
+      type: 'dryRunSetting',
+      data: { enabled }
+    });
+  }
+
+  /**
+   * Send banned/allowed command patterns to webview
+   */
+  private sendCommandPatternsSetting(): void {
+    if (!this._view) return;
+    this._view.webview.postMessage({
+      type: 'commandPatternsSetting',
+      data: {
+        bannedCommands: this._autoRetryService.getSetting<string[]>('bannedCommands', DEFAULT_BANNED_COMMANDS),
+        allowedCommands: this._autoRetryService.getSetting<string[]>('allowedCommands', []),
+        approvedCommands: this._autoRetryService.getSetting<string[]>('approvedCommands', DEFAULT_APPROVED_COMMANDS),
+        commandApproval: this._autoRetryService.getSetting('commandApproval', false)
+      }
+    });
+  }
+
+  /**
+   * Send profile names and the active profile to webview
+   */
+  private sendProfileSetting(): void {
+    if (!this._view) return;
+    const active = this._autoRetryService.getActiveProfile();
+    this._view.webview.postMessage({
+      type: 'profileSetting',
+      data: {
+        profiles: Object.keys(this._autoRetryService.getProfiles()),
+        active: active?.name ?? '',
+        scope: active?.scope ?? ''
+      }
+    });
+  }
+
+  /**
+   * Send the configured endpoints and discovered CDP targets to webview
+   */
+  private sendTargets(): void {
+    if (!this._view) return;
+    this._view.webview.postMessage({
+      type: 'targets',
+      data: {
+        endpoints: this._autoRetryService.getEndpoints(),
+        targets: this._autoRetryService.getTargets()
+      }
+    });
+  }
+
+  /**
+   * Send schedule settings and the current schedule state to webview
+   */
+  private sendScheduleSetting(): void {
+    if (!this._view) return;
+    this._view.webview.postMessage({
+      type: 'scheduleSetting',
+      data: this._autoRetryService.getScheduleState()
+    });
+  }
+
   /**
    * Send max connections setting to webview
    */
@@ -316,7 +587,7 @@ export class SidePanelProvider implements vscode.WebviewViewProvider {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource}; img-src data:;">
     ${styleUri ? `<link href="${styleUri}" rel="stylesheet">` : ''}
     <title>IDE Auto Retry</title>
 </head>
@@ -4,16 +4,35 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Checkbox } from '@/components/ui/checkbox'
-import { Play, Square, Settings, RefreshCw, Minus, Plus, CheckCheck } from 'lucide-react'
+import { Play, Square, Settings, RefreshCw, Minus, Plus, CheckCheck, Eye, ShieldAlert, MonitorSmartphone, Layers, Clock, FastForward } from 'lucide-react'
+import { PatternList } from '@/components/PatternList'
+import { TargetList, type TargetInfo } from '@/components/TargetList'
+import { EndpointList, type EndpointInfo } from '@/components/EndpointList'
+import { Dashboard, type DashboardData, type DashboardRange } from '@/components/Dashboard'
+import { RecentErrors, type ErrorSnapshotInfo } from '@/components/RecentErrors'
 
 interface StatusData {
   running: boolean
+  reconnecting: boolean
+  attention?: string
   clicks: number
   acceptAllClicks: number
+  continueClicks: number
+  wouldClick: number
+  blocked: number
   connectionCount: number
   cdpPort: number
 }
 
+interface ScheduleData {
+  enabled: boolean
+  active: boolean
+  reason: string
+  windows: string[]
+  idleMinutes: number
+  errors: string[]
+}
+
 interface LogEntry {
   id: number
   message: string
@@ -24,14 +43,45 @@ interface LogEntry {
 function App() {
   const [status, setStatus] = useState<StatusData>({
     running: false,
+    reconnecting: false,
     clicks: 0,
     acceptAllClicks: 0,
+    continueClicks: 0,
+    wouldClick: 0,
+    blocked: 0,
     connectionCount: 0,
     cdpPort: 31905
   })
   const [autoStart, setAutoStart] = useState(false)
   const [acceptAll, setAcceptAll] = useState(false)
+  const [autoContinue, setAutoContinue] = useState({ enabled: false, maxConsecutive: 10 })
+  const [dryRun, setDryRun] = useState(false)
   const [maxConnections, setMaxConnections] = useState(10)
+  const [bannedCommands, setBannedCommands] = useState<string[]>([])
+  const [allowedCommands, setAllowedCommands] = useState<string[]>([])
+  const [approvedCommands, setApprovedCommands] = useState<string[]>([])
+  const [commandApproval, setCommandApproval] = useState(false)
+  const [targets, setTargets] = useState<TargetInfo[]>([])
+  const [endpoints, setEndpoints] = useState<EndpointInfo[]>([])
+  const [profiles, setProfiles] = useState<string[]>([])
+  const [activeProfile, setActiveProfile] = useState('')
+  const [profileScope, setProfileScope] = useState('')
+  const [schedule, setSchedule] = useState<ScheduleData>({
+    enabled: false,
+    active: false,
+    reason: '',
+    windows: [],
+    idleMinutes: 0,
+    errors: []
+  })
+  const [tab, setTab] = useState<'control' | 'dashboard' | 'errors'>('control')
+  const [dashboardRange, setDashboardRange] = useState<DashboardRange>('day')
+  const [dashboard, setDashboard] = useState<DashboardData | undefined>()
+  const [recentErrors, setRecentErrors] = useState<ErrorSnapshotInfo[]>([])
+  const [captureSnapshots, setCaptureSnapshots] = useState(true)
+  const [screenshots, setScreenshots] = useState<Record<string, string | undefined>>({})
+  const [auditLogEnabled, setAuditLogEnabled] = useState(true)
+  const [categories, setCategories] = useState<Record<string, number>>({})
   const [logs, setLogs] = useState<LogEntry[]>([])
   const logIdRef = useRef(0)
   const logContainerRef = useRef<HTMLDivElement>(null)
@@ -75,7 +125,8 @@ function App() {
           setStatus(prev => ({ ...prev, ...message.data, acceptAllClicks: message.data.acceptAllClicks ?? prev.acceptAllClicks }))
           break
         case 'stats':
-          setStatus(prev => ({ ...prev, clicks: message.data.clicks, acceptAllClicks: message.data.acceptAllClicks || 0 }))
+          setStatus(prev => ({ ...prev, clicks: message.data.clicks, acceptAllClicks: message.data.acceptAllClicks || 0, continueClicks: message.data.continueClicks || 0, wouldClick: message.data.wouldClick || 0, blocked: message.data.blocked || 0 }))
+          setCategories(message.data.categories || {})
           break
         case 'log':
           addLog(message.data.message, message.data.logType)
@@ -89,6 +140,41 @@ function App() {
         case 'acceptAllSetting':
           setAcceptAll(message.data.enabled)
           break
+        case 'autoContinueSetting':
+          setAutoContinue(message.data)
+          break
+        case 'dryRunSetting':
+          setDryRun(message.data.enabled)
+          break
+        case 'commandPatternsSetting':
+          setBannedCommands(message.data.bannedCommands)
+          setAllowedCommands(message.data.allowedCommands)
+          setApprovedCommands(message.data.approvedCommands)
+          setCommandApproval(message.data.commandApproval)
+          break
+        case 'profileSetting':
+          setProfiles(message.data.profiles)
+          setActiveProfile(message.data.active)
+          setProfileScope(message.data.scope)
+          break
+        case 'dashboard':
+          setDashboard(message.data.dashboard)
+          setAuditLogEnabled(message.data.auditLog)
+          break
+        case 'recentErrors':
+          setRecentErrors(message.data.errors)
+          setCaptureSnapshots(message.data.capture)
+          break
+        case 'errorSnapshot':
+          setScreenshots(prev => ({ ...prev, [message.data.id]: message.data.snapshot?.screenshot }))
+          break
+        case 'scheduleSetting':
+          setSchedule(message.data)
+          break
+        case 'targets':
+          setTargets(message.data.targets)
+          setEndpoints(message.data.endpoints || [])
+          break
       }
     }
 
@@ -96,10 +182,39 @@ function App() {
     return () => window.removeEventListener('message', handleMessage)
   }, [addLog])
 
+  const requestDashboard = useCallback(() => {
+    vscode.postMessage({ type: 'getDashboard', data: { range: dashboardRange } })
+  }, [dashboardRange])
+
+  // Load the dashboard when it is shown and refresh it while it stays open
+  useEffect(() => {
+    if (tab !== 'dashboard') return
+    requestDashboard()
+    const timer = setInterval(requestDashboard, 30000)
+    return () => clearInterval(timer)
+  }, [tab, requestDashboard])
+
+  const requestRecentErrors = useCallback(() => {
+    vscode.postMessage({ type: 'getRecentErrors' })
+  }, [])
+
+  // Load recent errors when the tab is shown and refresh them while it stays open
+  useEffect(() => {
+    if (tab !== 'errors') return
+    requestRecentErrors()
+    const timer = setInterval(requestRecentErrors, 30000)
+    return () => clearInterval(timer)
+  }, [tab, requestRecentErrors])
+
   const handleToggle = () => {
     vscode.postMessage({ type: 'toggle' })
   }
 
+  const handleAcknowledgeAttention = () => {
+    setStatus(prev => ({ ...prev, attention: undefined }))
+    vscode.postMessage({ type: 'acknowledgeAttention' })
+  }
+
   const handleSetupCDP = () => {
     vscode.postMessage({ type: 'setupCDP' })
   }
@@ -115,11 +230,69 @@ function App() {
     vscode.postMessage({ type: 'setMaxConnections', data: { value: newValue } })
   }
 
+  const handleScheduleWindowsChange = (patterns: string[]) => {
+    setSchedule(prev => ({ ...prev, windows: patterns }))
+    vscode.postMessage({ type: 'setScheduleWindows', data: { patterns } })
+  }
+
+  const handleIdleMinutesChange = (delta: number) => {
+    const newValue = Math.max(0, schedule.idleMinutes + delta)
+    setSchedule(prev => ({ ...prev, idleMinutes: newValue }))
+    vscode.postMessage({ type: 'setIdleMinutes', data: { value: newValue } })
+  }
+
   const handleAcceptAllChange = (checked: boolean) => {
     setAcceptAll(checked)
     vscode.postMessage({ type: 'setAcceptAll', data: { enabled: checked } })
   }
 
+  const handleBannedCommandsChange = (patterns: string[]) => {
+    setBannedCommands(patterns)
+    vscode.postMessage({ type: 'setBannedCommands', data: { patterns } })
+  }
+
+  const handleAllowedCommandsChange = (patterns: string[]) => {
+    setAllowedCommands(patterns)
+    vscode.postMessage({ type: 'setAllowedCommands', data: { patterns } })
+  }
+
+  const handleApprovedCommandsChange = (patterns: string[]) => {
+    setApprovedCommands(patterns)
+    vscode.postMessage({ type: 'setApprovedCommands', data: { patterns } })
+  }
+
+  const handleCommandApprovalChange = (checked: boolean) => {
+    setCommandApproval(checked)
+    vscode.postMessage({ type: 'setCommandApproval', data: { enabled: checked } })
+  }
+
+  const handleProfileChange = (name: string) => {
+    setActiveProfile(name)
+    vscode.postMessage({ type: 'setProfile', data: { name } })
+  }
+
+  const handleTargetToggle = (id: string, enabled: boolean) => {
+    setTargets(prev => prev.map(t => t.id === id ? { ...t, status: enabled ? 'available' : 'disabled' } : t))
+    vscode.postMessage({ type: 'setTargetEnabled', data: { id, enabled } })
+  }
+
+  const handleResetBannedCommands = () => {
+    vscode.postMessage({ type: 'resetBannedCommands' })
+  }
+
+  const handleAutoContinueChange = (checked: boolean) => {
+    setAutoContinue(prev => ({ ...prev, enabled: checked }))
+    vscode.postMessage({ type: 'setAutoContinue', data: { enabled: checked } })
+  }
+
+  const handleDryRunChange = (checked: boolean) => {
+    setDryRun(checked)
+    vscode.postMessage({ type: 'setDryRun', data: { enabled: checked } })
+  }
+
+  // Reconnecting still counts as started: the toggle stops the supervisor
+  const active = status.running || status.reconnecting
+
   return (
     <div className="dark min-h-screen bg-background p-2">
       <div className="space-y-2">
@@ -136,185 +309,476 @@ function App() {
           </div>
         </div>
 
-        {/* Status Card */}
-        <Card className="py-0 gap-1">
-          <CardContent className="p-3">
-            <div className="flex flex-col items-center gap-2">
-              {/* Status Badge */}
-              <Badge 
-                variant={status.running ? "default" : "secondary"}
-                className={`px-2.5 py-1 text-xs font-medium ${
-                  status.running 
-                    ? 'bg-green-500/20 text-green-400 border-green-500/30' 
-                    : 'bg-muted text-muted-foreground'
-                }`}
-              >
-                <span className={`mr-1.5 h-1.5 w-1.5 rounded-full ${
-                  status.running ? 'bg-green-400 animate-pulse' : 'bg-muted-foreground'
-                }`} />
-                {status.running ? 'Running' : 'Stopped'}
-              </Badge>
-
-              {/* Toggle Button */}
-              <Button 
-                onClick={handleToggle}
-                variant={status.running ? "secondary" : "default"}
-                size="sm"
-                className="w-full max-w-[160px] gap-1.5 h-8"
-              >
-                {status.running ? (
-                  <>
-                    <Square className="h-3 w-3" />
-                    Stop
-                  </>
+        {/* Tabs */}
+        <div className="flex items-center gap-1">
+          <Button
+            variant={tab === 'control' ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 flex-1 text-[11px]"
+            onClick={() => setTab('control')}
+          >
+            Control
+          </Button>
+          <Button
+            variant={tab === 'dashboard' ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 flex-1 text-[11px]"
+            onClick={() => setTab('dashboard')}
+          >
+            Dashboard
+          </Button>
+          <Button
+            variant={tab === 'errors' ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 flex-1 text-[11px]"
+            onClick={() => setTab('errors')}
+          >
+            Errors
+          </Button>
+        </div>
+
+        {tab === 'dashboard' && (
+          <Dashboard
+            data={dashboard}
+            auditLog={auditLogEnabled}
+            range={dashboardRange}
+            onRangeChange={setDashboardRange}
+            onRefresh={requestDashboard}
+          />
+        )}
+
+        {tab === 'errors' && (
+          <RecentErrors
+            errors={recentErrors}
+            capture={captureSnapshots}
+            screenshots={screenshots}
+            onLoadScreenshot={(id) => vscode.postMessage({ type: 'getErrorSnapshot', data: { id } })}
+            onRefresh={requestRecentErrors}
+            onExport={() => vscode.postMessage({ type: 'exportRecentErrors' })}
+            onClear={() => vscode.postMessage({ type: 'clearRecentErrors' })}
+          />
+        )}
+
+        {/* Control tab (kept mounted so unsaved pattern drafts survive switching tabs) */}
+        <div className="space-y-2" hidden={tab !== 'control'}>
+          {/* Status Card */}
+          <Card className="py-0 gap-1">
+            <CardContent className="p-3">
+              <div className="flex flex-col items-center gap-2">
+                {/* Status Badge */}
+                <Badge 
+                  variant={active ? "default" : "secondary"}
+                  className={`px-2.5 py-1 text-xs font-medium ${
+                    status.running 
+                      ? 'bg-green-500/20 text-green-400 border-green-500/30' 
+                      : status.reconnecting
+                      ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
+                      : 'bg-muted text-muted-foreground'
+                  }`}
+                >
+                  <span className={`mr-1.5 h-1.5 w-1.5 rounded-full ${
+                    status.running ? 'bg-green-400 animate-pulse' : status.reconnecting ? 'bg-yellow-400 animate-pulse' : 'bg-muted-foreground'
+                  }`} />
+                  {status.running ? 'Running' : status.reconnecting ? 'Reconnecting' : 'Stopped'}
+                </Badge>
+
+                {/* Sticky warning (circuit open) */}
+                {status.attention && (
+                  <div className="w-full flex items-center justify-between gap-2 rounded border border-yellow-500/30 bg-yellow-500/10 px-2 py-1">
+                    <span className="text-[10px] text-yellow-400">{status.attention}</span>
+                    <Button variant="ghost" size="sm" className="h-5 px-1.5 text-[10px]" onClick={handleAcknowledgeAttention}>
+                      Dismiss
+                    </Button>
+                  </div>
+                )}
+
+                {/* Toggle Button */}
+                <Button 
+                  onClick={handleToggle}
+                  variant={active ? "secondary" : "default"}
+                  size="sm"
+                  className="w-full max-w-[160px] gap-1.5 h-8"
+                >
+                  {active ? (
+                    <>
+                      <Square className="h-3 w-3" />
+                      Stop
+                    </>
+                  ) : (
+                    <>
+                      <Play className="h-3 w-3" />
+                      Start
+                    </>
+                  )}
+                </Button>
+
+                {/* Auto-start checkbox */}
+                <div className="flex items-center gap-1.5">
+                  <Checkbox 
+                    id="autoStart" 
+                    checked={autoStart}
+                    onCheckedChange={handleAutoStartChange}
+                    className="h-3.5 w-3.5"
+                  />
+                  <label 
+                    htmlFor="autoStart" 
+                    className="text-[11px] text-muted-foreground cursor-pointer"
+                  >
+                    Auto-start on IDE launch
+                  </label>
+                </div>
+
+                {/* Accept All checkbox */}
+                <div className="flex items-center gap-1.5">
+                  <Checkbox 
+                    id="acceptAll" 
+                    checked={acceptAll}
+                    onCheckedChange={handleAcceptAllChange}
+                    className="h-3.5 w-3.5"
+                  />
+                  <label 
+                    htmlFor="acceptAll" 
+                    className="text-[11px] text-muted-foreground cursor-pointer flex items-center gap-1"
+                  >
+                    <CheckCheck className="h-3 w-3" />
+                    Auto Accept All
+                  </label>
+                </div>
+
+                {/* Auto Continue checkbox */}
+                <div className="flex items-center gap-1.5">
+                  <Checkbox 
+                    id="autoContinue" 
+                    checked={autoContinue.enabled}
+                    onCheckedChange={handleAutoContinueChange}
+                    className="h-3.5 w-3.5"
+                  />
+                  <label 
+                    htmlFor="autoContinue" 
+                    className="text-[11px] text-muted-foreground cursor-pointer flex items-center gap-1"
+                    title={`Click "Continue" when an agent pauses at a tool-call or iteration limit, up to ${autoContinue.maxConsecutive} times in a row`}
+                  >
+                    <FastForward className="h-3 w-3" />
+                    Auto Continue (max {autoContinue.maxConsecutive} in a row)
+                  </label>
+                </div>
+
+                {/* Dry run checkbox */}
+                <div className="flex items-center gap-1.5">
+                  <Checkbox 
+                    id="dryRun" 
+                    checked={dryRun}
+                    onCheckedChange={handleDryRunChange}
+                    className="h-3.5 w-3.5"
+                  />
+                  <label 
+                    htmlFor="dryRun" 
+                    className="text-[11px] text-muted-foreground cursor-pointer flex items-center gap-1"
+                  >
+                    <Eye className="h-3 w-3" />
+                    Dry run (observe only)
+                  </label>
+                </div>
+
+                {/* Profile select */}
+                <div className="flex items-center gap-1.5">
+                  <label
+                    htmlFor="profile"
+                    className="text-[11px] text-muted-foreground flex items-center gap-1"
+                  >
+                    <Layers className="h-3 w-3" />
+                    Profile
+                  </label>
+                  <select
+                    id="profile"
+                    value={activeProfile}
+                    onChange={(e) => handleProfileChange(e.target.value)}
+                    title={profileScope ? `Active in scope: ${profileScope}` : 'Plain settings'}
+                    className="h-6 rounded border border-input bg-background px-1 text-[11px] text-foreground outline-none focus-visible:border-ring"
+                  >
+                    <option value="">None</option>
+                    {profiles.map((name) => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Stats Card */}
+          <Card className="py-0 gap-1">
+            <CardHeader className="pb-0 pt-3 px-3">
+              <CardTitle className="text-xs font-medium flex items-center gap-1.5">
+                <RefreshCw className="h-3 w-3" />
+                Statistics
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pt-1 pb-3">
+              <div className="grid grid-cols-3 gap-2">
+                <div className="flex flex-col items-center rounded bg-muted/50 py-1.5 px-2">
+                  <span className="text-lg font-bold text-foreground leading-tight">{status.clicks}</span>
+                  <span className="text-[9px] text-muted-foreground uppercase tracking-wide">Retries</span>
+                </div>
+                <div className="flex flex-col items-center rounded bg-muted/50 py-1.5 px-2">
+                  <span className="text-lg font-bold text-foreground leading-tight">{status.acceptAllClicks}</span>
+                  <span className="text-[9px] text-muted-foreground uppercase tracking-wide">Accepts</span>
+                </div>
+                <div className="flex flex-col items-center rounded bg-muted/50 py-1.5 px-2">
+                  <span className="text-lg font-bold text-foreground leading-tight">{status.connectionCount}</span>
+                  <span className="text-[9px] text-muted-foreground uppercase tracking-wide">Connections</span>
+                </div>
+              </div>
+
+              {/* Attempts stopped by the blocklist, guards or category policy */}
+              {status.blocked > 0 && (
+                <div className="mt-2 flex items-center justify-between rounded bg-muted/50 py-1 px-2">
+                  <span className="text-[9px] text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+                    <ShieldAlert className="h-3 w-3" />
+                    Blocked
+                  </span>
+                  <span className="text-sm font-bold text-foreground leading-tight">{status.blocked}</span>
+                </div>
+              )}
+
+              {/* Continue clicks on agent tool-call / iteration limits */}
+              {(autoContinue.enabled || status.continueClicks > 0) && (
+                <div className="mt-2 flex items-center justify-between rounded bg-muted/50 py-1 px-2">
+                  <span className="text-[9px] text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+                    <FastForward className="h-3 w-3" />
+                    Continues
+                  </span>
+                  <span className="text-sm font-bold text-foreground leading-tight">{status.continueClicks}</span>
+                </div>
+              )}
+
+              {/* Dry-run candidates, kept apart from real clicks */}
+              {(dryRun || status.wouldClick > 0) && (
+                <div className="mt-2 flex items-center justify-between rounded bg-muted/50 py-1 px-2">
+                  <span className="text-[9px] text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+                    <Eye className="h-3 w-3" />
+                    Would click
+                  </span>
+                  <span className="text-sm font-bold text-foreground leading-tight">{status.wouldClick}</span>
+                </div>
+              )}
+
+              {/* Retries by error category */}
+              {Object.keys(categories).length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {Object.entries(categories)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([category, count]) => (
+                      <Badge key={category} variant="secondary" className="px-1.5 py-0 text-[9px] font-normal">
+                        {category}: {count}
+                      </Badge>
+                    ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Log Card */}
+          <Card className="py-0 gap-1">
+            <CardHeader className="pb-0 pt-3 px-3">
+              <CardTitle className="text-xs font-medium">Activity Log</CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pt-1 pb-3">
+              <div ref={logContainerRef} className="h-[100px] overflow-y-auto rounded bg-muted/30 p-1.5 font-mono text-[10px]">
+                {logs.length === 0 ? (
+                  <div className="flex h-full items-center justify-center text-muted-foreground italic text-[10px]">
+                    Ready to start...
+                  </div>
                 ) : (
-                  <>
-                    <Play className="h-3 w-3" />
-                    Start
-                  </>
+                  logs.map((log) => (
+                    <div 
+                      key={log.id} 
+                      className={`py-0.5 leading-tight ${
+                        log.type === 'success' ? 'text-green-400' :
+                        log.type === 'error' ? 'text-red-400' :
+                        'text-muted-foreground'
+                      }`}
+                    >
+                      <span className="opacity-50">[{log.timestamp}]</span> {log.message}
+                    </div>
+                  ))
                 )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Targets Card */}
+          <Card className="py-0 gap-0">
+            <CardHeader className="pb-0 pt-3 px-3">
+              <CardTitle className="text-xs font-medium flex items-center gap-1.5">
+                <MonitorSmartphone className="h-3 w-3" />
+                Targets
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pt-2 pb-3 space-y-2">
+              <EndpointList endpoints={endpoints} />
+              <TargetList targets={targets} onToggle={handleTargetToggle} />
+            </CardContent>
+          </Card>
+
+          {/* Command Blocklist Card */}
+          <Card className="py-0 gap-0">
+            <CardHeader className="pb-0 pt-3 px-3">
+              <CardTitle className="text-xs font-medium flex items-center gap-1.5">
+                <ShieldAlert className="h-3 w-3" />
+                Command Blocklist
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pt-2 pb-3 space-y-2">
+              <PatternList
+                label="Banned (never click next to these):"
+                placeholder="text, glob* or /regex/i"
+                patterns={bannedCommands}
+                onChange={handleBannedCommandsChange}
+              />
+              <PatternList
+                label="Allowed (override banned):"
+                placeholder="text, glob* or /regex/i"
+                patterns={allowedCommands}
+                onChange={handleAllowedCommandsChange}
+              />
+              <Button variant="outline" size="sm" onClick={handleResetBannedCommands} className="w-full h-7 text-xs">
+                Reset banned to defaults
               </Button>
 
-              {/* Auto-start checkbox */}
-              <div className="flex items-center gap-1.5">
+              {/* Command approval: "Run command?" prompts for allowlisted commands */}
+              <div className="flex items-center gap-1.5 pt-1">
                 <Checkbox 
-                  id="autoStart" 
-                  checked={autoStart}
-                  onCheckedChange={handleAutoStartChange}
+                  id="commandApproval" 
+                  checked={commandApproval}
+                  onCheckedChange={handleCommandApprovalChange}
                   className="h-3.5 w-3.5"
                 />
                 <label 
-                  htmlFor="autoStart" 
+                  htmlFor="commandApproval" 
                   className="text-[11px] text-muted-foreground cursor-pointer"
                 >
-                  Auto-start on IDE launch
+                  Auto-approve commands on the approval list
                 </label>
               </div>
-
-              {/* Accept All checkbox */}
-              <div className="flex items-center gap-1.5">
-                <Checkbox 
-                  id="acceptAll" 
-                  checked={acceptAll}
-                  onCheckedChange={handleAcceptAllChange}
-                  className="h-3.5 w-3.5"
+              {commandApproval && (
+                <PatternList
+                  label="Approved (whole command; banned always wins):"
+                  placeholder="npm test, pytest * or /regex/"
+                  patterns={approvedCommands}
+                  onChange={handleApprovedCommandsChange}
                 />
-                <label 
-                  htmlFor="acceptAll" 
-                  className="text-[11px] text-muted-foreground cursor-pointer flex items-center gap-1"
-                >
-                  <CheckCheck className="h-3 w-3" />
-                  Auto Accept All
-                </label>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Stats Card */}
-        <Card className="py-0 gap-1">
-          <CardHeader className="pb-0 pt-3 px-3">
-            <CardTitle className="text-xs font-medium flex items-center gap-1.5">
-              <RefreshCw className="h-3 w-3" />
-              Statistics
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="px-3 pt-1 pb-3">
-            <div className="grid grid-cols-3 gap-2">
-              <div className="flex flex-col items-center rounded bg-muted/50 py-1.5 px-2">
-                <span className="text-lg font-bold text-foreground leading-tight">{status.clicks}</span>
-                <span className="text-[9px] text-muted-foreground uppercase tracking-wide">Retries</span>
-              </div>
-              <div className="flex flex-col items-center rounded bg-muted/50 py-1.5 px-2">
-                <span className="text-lg font-bold text-foreground leading-tight">{status.acceptAllClicks}</span>
-                <span className="text-[9px] text-muted-foreground uppercase tracking-wide">Accepts</span>
-              </div>
-              <div className="flex flex-col items-center rounded bg-muted/50 py-1.5 px-2">
-                <span className="text-lg font-bold text-foreground leading-tight">{status.connectionCount}</span>
-                <span className="text-[9px] text-muted-foreground uppercase tracking-wide">Connections</span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Log Card */}
-        <Card className="py-0 gap-1">
-          <CardHeader className="pb-0 pt-3 px-3">
-            <CardTitle className="text-xs font-medium">Activity Log</CardTitle>
-          </CardHeader>
-          <CardContent className="px-3 pt-1 pb-3">
-            <div ref={logContainerRef} className="h-[100px] overflow-y-auto rounded bg-muted/30 p-1.5 font-mono text-[10px]">
-              {logs.length === 0 ? (
-                <div className="flex h-full items-center justify-center text-muted-foreground italic text-[10px]">
-                  Ready to start...
-                </div>
-              ) : (
-                logs.map((log) => (
-                  <div 
-                    key={log.id} 
-                    className={`py-0.5 leading-tight ${
-                      log.type === 'success' ? 'text-green-400' :
-                      log.type === 'error' ? 'text-red-400' :
-                      'text-muted-foreground'
-                    }`}
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Schedule Card */}
+          <Card className="py-0 gap-0">
+            <CardHeader className="pb-0 pt-3 px-3">
+              <CardTitle className="text-xs font-medium flex items-center gap-1.5">
+                <Clock className="h-3 w-3" />
+                Schedule
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pt-2 pb-3 space-y-2">
+              <PatternList
+                label="Active windows:"
+                placeholder="mon-fri 22:00-07:00"
+                patterns={schedule.windows}
+                onChange={handleScheduleWindowsChange}
+              />
+              {schedule.errors.map((error) => (
+                <p key={error} className="text-[10px] text-red-400">{error}</p>
+              ))}
+
+              {/* Idle Minutes */}
+              <div className="flex items-center justify-between">
+                <span className="text-[11px] text-muted-foreground">Start when idle (min):</span>
+                <div className="flex items-center gap-1">
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="h-5 w-5 p-0" 
+                    onClick={() => handleIdleMinutesChange(-5)}
+                    disabled={schedule.idleMinutes <= 0}
                   >
-                    <span className="opacity-50">[{log.timestamp}]</span> {log.message}
-                  </div>
-                ))
+                    <Minus className="h-3 w-3" />
+                  </Button>
+                  <span className="font-mono text-xs font-medium text-foreground w-6 text-center">
+                    {schedule.idleMinutes || 'off'}
+                  </span>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="h-5 w-5 p-0" 
+                    onClick={() => handleIdleMinutesChange(5)}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+
+              {schedule.enabled && (
+                <p className="text-[10px] text-muted-foreground">
+                  <span className={schedule.active ? 'text-green-400' : 'text-foreground'}>
+                    {schedule.active ? 'Active' : 'Inactive'}
+                  </span>
+                  {schedule.reason && ` - ${schedule.reason}`}
+                </p>
               )}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Settings Card */}
-        <Card className="py-0 gap-0">
-          <CardHeader className="pb-0 pt-3 px-3">
-            <CardTitle className="text-xs font-medium flex items-center gap-1.5">
-              <Settings className="h-3 w-3" />
-              Settings
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="px-3 pt-2 pb-3 space-y-2">
-            {/* CDP Port */}
-            <div className="flex items-center justify-between">
-              <span className="text-[11px] text-muted-foreground">CDP Port:</span>
-              <span className="font-mono text-xs font-medium text-foreground">{status.cdpPort}</span>
-            </div>
+            </CardContent>
+          </Card>
+
+          {/* Settings Card */}
+          <Card className="py-0 gap-0">
+            <CardHeader className="pb-0 pt-3 px-3">
+              <CardTitle className="text-xs font-medium flex items-center gap-1.5">
+                <Settings className="h-3 w-3" />
+                Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pt-2 pb-3 space-y-2">
+              {/* CDP Port */}
+              <div className="flex items-center justify-between">
+                <span className="text-[11px] text-muted-foreground">CDP Port:</span>
+                <span className="font-mono text-xs font-medium text-foreground">{status.cdpPort}</span>
+              </div>
             
-            {/* Max Connections */}
-            <div className="flex items-center justify-between">
-              <span className="text-[11px] text-muted-foreground">Max Connections:</span>
-              <div className="flex items-center gap-1">
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  className="h-5 w-5 p-0" 
-                  onClick={() => handleMaxConnectionsChange(-1)}
-                  disabled={maxConnections <= 1}
-                >
-                  <Minus className="h-3 w-3" />
-                </Button>
-                <span className="font-mono text-xs font-medium text-foreground w-6 text-center">
-                  {maxConnections}
-                </span>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  className="h-5 w-5 p-0" 
-                  onClick={() => handleMaxConnectionsChange(1)}
-                  disabled={maxConnections >= 50}
-                >
-                  <Plus className="h-3 w-3" />
-                </Button>
+              {/* Max Connections */}
+              <div className="flex items-center justify-between">
+                <span className="text-[11px] text-muted-foreground">Max Connections:</span>
+                <div className="flex items-center gap-1">
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="h-5 w-5 p-0" 
+                    onClick={() => handleMaxConnectionsChange(-1)}
+                    disabled={maxConnections <= 1}
+                  >
+                    <Minus className="h-3 w-3" />
+                  </Button>
+                  <span className="font-mono text-xs font-medium text-foreground w-6 text-center">
+                    {maxConnections}
+                  </span>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    className="h-5 w-5 p-0" 
+                    onClick={() => handleMaxConnectionsChange(1)}
+                    disabled={maxConnections >= 50}
+                  >
+                    <Plus className="h-3 w-3" />
+                  </Button>
+                </div>
               </div>
-            </div>
             
-            {/* Setup CDP Button */}
-            <Button variant="outline" size="sm" onClick={handleSetupCDP} className="w-full h-7 text-xs">
-              Setup CDP
-            </Button>
-          </CardContent>
-        </Card>
+              {/* Setup CDP Button */}
+              <Button variant="outline" size="sm" onClick={handleSetupCDP} className="w-full h-7 text-xs">
+                Setup CDP
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </div>
   )
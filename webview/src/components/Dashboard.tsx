@@ -0,0 +1,196 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { BarChart3, RefreshCw } from 'lucide-react'
+
+export type DashboardRange = 'hour' | 'day' | 'week'
+
+export interface DashboardData {
+  range: DashboardRange
+  since: number
+  totals: { retries: number; accepts: number; continues: number; commands: number; blocked: number; circuitOpen: number; wouldClick: number }
+  buckets: { start: number; retries: number; accepts: number; blocked: number }[]
+  blockedReasons: Record<string, number>
+  topErrors: { message: string; count: number }[]
+  pages: { title: string; retries: number; accepts: number; blocked: number; circuitOpen: number }[]
+  meanTimeBetweenFailures?: number
+  longestUnattended?: { duration: number; clicks: number }
+}
+
+interface DashboardProps {
+  data?: DashboardData
+  auditLog: boolean
+  range: DashboardRange
+  onRangeChange: (range: DashboardRange) => void
+  onRefresh: () => void
+}
+
+const RANGE_LABELS: Record<DashboardRange, string> = { hour: 'Hour', day: 'Day', week: 'Week' }
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  return hours < 24 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
+
+function formatBucket(start: number, range: DashboardRange): string {
+  const date = new Date(start)
+  const time = date.toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' })
+  return range === 'week' ? `${date.toLocaleDateString('en-US', { weekday: 'short' })} ${time}` : time
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="flex flex-col items-center rounded bg-muted/50 py-1.5 px-2">
+      <span className="text-sm font-bold text-foreground leading-tight">{value}</span>
+      <span className="text-[9px] text-muted-foreground uppercase tracking-wide">{label}</span>
+    </div>
+  )
+}
+
+// Statistics from the audit log: activity over time, blocked attempts, top errors, per-target breakdown
+export function Dashboard({ data, auditLog, range, onRangeChange, onRefresh }: DashboardProps) {
+  const peak = Math.max(1, ...(data?.buckets ?? []).map(b => b.retries + b.accepts + b.blocked))
+
+  return (
+    <div className="space-y-2">
+      {/* Range select */}
+      <div className="flex items-center gap-1">
+        {(Object.keys(RANGE_LABELS) as DashboardRange[]).map((r) => (
+          <Button
+            key={r}
+            variant={r === range ? 'default' : 'outline'}
+            size="sm"
+            className="h-6 flex-1 text-[11px]"
+            onClick={() => onRangeChange(r)}
+          >
+            {RANGE_LABELS[r]}
+          </Button>
+        ))}
+        <Button variant="outline" size="sm" className="h-6 w-6 p-0" onClick={onRefresh} title="Refresh">
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {!auditLog && (
+        <p className="text-[10px] text-yellow-400">
+          The audit log is off (ideAutoRetry.auditLog), so no new events are recorded.
+        </p>
+      )}
+
+      {!data ? (
+        <p className="text-[10px] text-muted-foreground italic">No data yet</p>
+      ) : (
+        <>
+          {/* Totals */}
+          <Card className="py-0 gap-1">
+            <CardHeader className="pb-0 pt-3 px-3">
+              <CardTitle className="text-xs font-medium flex items-center gap-1.5">
+                <BarChart3 className="h-3 w-3" />
+                Last {RANGE_LABELS[range].toLowerCase()}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="px-3 pt-1 pb-3 space-y-2">
+              <div className="grid grid-cols-3 gap-2">
+                <Stat label="Retries" value={data.totals.retries} />
+                <Stat label="Accepts" value={data.totals.accepts} />
+                <Stat label="Continues" value={data.totals.continues} />
+                <Stat label="Commands" value={data.totals.commands} />
+                <Stat label="Blocked" value={data.totals.blocked} />
+                <Stat label="Gave up" value={data.totals.circuitOpen} />
+                <Stat label="MTBF" value={data.meanTimeBetweenFailures !== undefined ? formatDuration(data.meanTimeBetweenFailures) : '-'} />
+                <Stat label="Unattended" value={data.longestUnattended ? formatDuration(data.longestUnattended.duration) : '-'} />
+                <Stat label="Would click" value={data.totals.wouldClick} />
+              </div>
+
+              {/* Activity over time: retries (green), accepts (blue), blocked (red) */}
+              <div className="flex h-16 items-end gap-px rounded bg-muted/30 p-1">
+                {data.buckets.map((bucket) => (
+                  <div
+                    key={bucket.start}
+                    className="flex flex-1 flex-col-reverse"
+                    style={{ height: `${((bucket.retries + bucket.accepts + bucket.blocked) / peak) * 100}%` }}
+                    title={`${formatBucket(bucket.start, range)}: ${bucket.retries} retries, ${bucket.accepts} accepts, ${bucket.blocked} blocked`}
+                  >
+                    <div className="bg-green-400" style={{ flexGrow: bucket.retries }} />
+                    <div className="bg-blue-400" style={{ flexGrow: bucket.accepts }} />
+                    <div className="bg-red-400" style={{ flexGrow: bucket.blocked }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-[9px] text-muted-foreground">
+                <span>{formatBucket(data.since, range)}</span>
+                <span>now</span>
+              </div>
+              {data.longestUnattended && (
+                <p className="text-[10px] text-muted-foreground">
+                  Longest unattended streak: {data.longestUnattended.clicks} clicks over {formatDuration(data.longestUnattended.duration)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Blocked attempts by reason */}
+          {Object.keys(data.blockedReasons).length > 0 && (
+            <Card className="py-0 gap-1">
+              <CardHeader className="pb-0 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">Blocked</CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pt-1 pb-3 space-y-0.5">
+                {Object.entries(data.blockedReasons)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([reason, count]) => (
+                    <div key={reason} className="flex justify-between text-[10px]">
+                      <span className="text-foreground">{reason}</span>
+                      <span className="font-mono text-muted-foreground">{count}</span>
+                    </div>
+                  ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Top error messages */}
+          {data.topErrors.length > 0 && (
+            <Card className="py-0 gap-1">
+              <CardHeader className="pb-0 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">Top errors</CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pt-1 pb-3 space-y-0.5">
+                {data.topErrors.map((error) => (
+                  <div key={error.message} className="flex justify-between gap-2 text-[10px]" title={error.message}>
+                    <span className="truncate text-foreground">{error.message}</span>
+                    <span className="shrink-0 font-mono text-muted-foreground">{error.count}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Per-target breakdown */}
+          {data.pages.length > 0 && (
+            <Card className="py-0 gap-1">
+              <CardHeader className="pb-0 pt-3 px-3">
+                <CardTitle className="text-xs font-medium">By target</CardTitle>
+              </CardHeader>
+              <CardContent className="px-3 pt-1 pb-3 space-y-0.5">
+                <div className="flex justify-between text-[9px] text-muted-foreground uppercase tracking-wide">
+                  <span>Target</span>
+                  <span>Retries / Accepts / Blocked</span>
+                </div>
+                {data.pages.map((page) => (
+                  <div key={page.title} className="flex justify-between gap-2 text-[10px]" title={page.title}>
+                    <span className="truncate text-foreground">{page.title}</span>
+                    <span className="shrink-0 font-mono text-muted-foreground">
+                      {page.retries} / {page.accepts} / {page.blocked}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+export interface EndpointInfo {
+  label: string
+  status: 'connected' | 'reachable' | 'reconnecting' | 'unreachable' | 'unknown'
+  connections: number
+  error?: string
+}
+
+interface EndpointListProps {
+  endpoints: EndpointInfo[]
+}
+
+const STATUS_STYLE: Record<EndpointInfo['status'], string> = {
+  connected: 'text-green-400',
+  reachable: 'text-yellow-400',
+  reconnecting: 'text-yellow-400',
+  unreachable: 'text-red-400',
+  unknown: 'text-muted-foreground'
+}
+
+// Scan state of each configured CDP endpoint
+export function EndpointList({ endpoints }: EndpointListProps) {
+  return (
+    <div className="space-y-0.5">
+      {endpoints.map((endpoint) => (
+        <div key={endpoint.label} className="flex items-center justify-between gap-1 text-[10px]" title={endpoint.error}>
+          <span className="font-mono truncate text-foreground">{endpoint.label}</span>
+          <span className={`shrink-0 ${STATUS_STYLE[endpoint.status]}`}>
+            {endpoint.status === 'connected' ? `${endpoint.connections} connected` : endpoint.status}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Plus, X } from 'lucide-react'
+
+interface PatternListProps {
+  label: string
+  placeholder: string
+  patterns: string[]
+  onChange: (patterns: string[]) => void
+}
+
+// Returns an error message for a /regex/flags entry that does not compile
+function validatePattern(pattern: string): string | null {
+  const regex = /^\/(.*)\/([a-z]*)$/.exec(pattern)
+  if (!regex) return null
+  try {
+    new RegExp(regex[1], regex[2])
+    return null
+  } catch (e) {
+    return (e as Error).message
+  }
+}
+
+// Editable list of command patterns (substring, glob or /regex/flags)
+export function PatternList({ label, placeholder, patterns, onChange }: PatternListProps) {
+  const [draft, setDraft] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAdd = () => {
+    const pattern = draft.trim()
+    if (!pattern) return
+    const invalid = validatePattern(pattern)
+    if (invalid) {
+      setError(invalid)
+      return
+    }
+    if (!patterns.includes(pattern)) {
+      onChange([...patterns, pattern])
+    }
+    setDraft('')
+    setError(null)
+  }
+
+  return (
+    <div className="space-y-1">
+      <span className="text-[11px] text-muted-foreground">{label}</span>
+      <div className="max-h-[96px] overflow-y-auto rounded bg-muted/30 p-1 space-y-0.5">
+        {patterns.length === 0 ? (
+          <div className="text-[10px] text-muted-foreground italic px-1">None</div>
+        ) : (
+          patterns.map((pattern) => (
+            <div key={pattern} className="flex items-center justify-between gap-1 px-1 font-mono text-[10px] text-foreground">
+              <span className="truncate" title={pattern}>{pattern}</span>
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground shrink-0"
+                onClick={() => onChange(patterns.filter(p => p !== pattern))}
+                aria-label={`Remove ${pattern}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <input
+          value={draft}
+          onChange={(e) => { setDraft(e.target.value); setError(null) }}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd() }}
+          placeholder={placeholder}
+          className="h-6 flex-1 min-w-0 rounded border border-input bg-transparent px-1.5 font-mono text-[10px] text-foreground placeholder:text-muted-foreground outline-none focus-visible:border-ring"
+        />
+        <Button variant="outline" size="sm" className="h-6 w-6 p-0" onClick={handleAdd} disabled={!draft.trim()}>
+          <Plus className="h-3 w-3" />
+        </Button>
+      </div>
+      {error && <div className="text-[10px] text-red-400">Invalid regex: {error}</div>}
+    </div>
+  )
+}
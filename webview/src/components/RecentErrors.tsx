@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Download, RefreshCw, Trash2 } from 'lucide-react'
+
+export interface ErrorSnapshotInfo {
+  id: string
+  timestamp: number
+  type: string
+  pageId: string
+  pageTitle?: string
+  category?: string
+  buttonText?: string
+  attempts?: number
+  text: string
+  html: string
+  hasScreenshot: boolean
+}
+
+interface RecentErrorsProps {
+  errors: ErrorSnapshotInfo[]
+  capture: boolean
+  screenshots: Record<string, string | undefined>
+  onLoadScreenshot: (id: string) => void
+  onRefresh: () => void
+  onExport: () => void
+  onClear: () => void
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp)
+  const time = date.toLocaleTimeString('en-US', { hour12: false })
+  return date.toDateString() === new Date().toDateString() ? time : `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} ${time}`
+}
+
+// Error panels captured before each retry, newest first; a card expands to the full text, screenshot and markup
+export function RecentErrors({ errors, capture, screenshots, onLoadScreenshot, onRefresh, onExport, onClear }: RecentErrorsProps) {
+  const [expanded, setExpanded] = useState<string | undefined>()
+
+  const toggle = (error: ErrorSnapshotInfo) => {
+    const open = expanded === error.id ? undefined : error.id
+    setExpanded(open)
+    if (open && error.hasScreenshot && !(open in screenshots)) onLoadScreenshot(open)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <span className="flex-1 text-[11px] text-muted-foreground">{errors.length} captured</span>
+        <Button variant="outline" size="sm" className="h-6 px-2 text-[11px]" onClick={onExport} disabled={errors.length === 0}>
+          <Download className="h-3 w-3" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" className="h-6 w-6 p-0" onClick={onClear} disabled={errors.length === 0} title="Clear">
+          <Trash2 className="h-3 w-3" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-6 w-6 p-0" onClick={onRefresh} title="Refresh">
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {!capture && (
+        <p className="text-[10px] text-yellow-400">
+          Snapshots are off (ideAutoRetry.captureSnapshots), so new errors are not captured.
+        </p>
+      )}
+
+      {errors.length === 0 ? (
+        <p className="text-[10px] text-muted-foreground italic">No errors captured yet</p>
+      ) : (
+        errors.map((error) => (
+          <Card key={error.id} className="py-0 gap-0">
+            <CardContent className="px-3 py-2 space-y-1">
+              <button type="button" className="w-full text-left space-y-0.5" onClick={() => toggle(error)}>
+                <div className="flex items-center gap-1.5 text-[10px]">
+                  <span className="font-mono text-muted-foreground shrink-0">{formatTime(error.timestamp)}</span>
+                  {error.category && (
+                    <Badge variant="secondary" className="px-1 py-0 text-[9px] font-normal shrink-0">{error.category}</Badge>
+                  )}
+                  <span className="truncate flex-1 text-muted-foreground" title={error.pageTitle || error.pageId}>
+                    {error.pageTitle || error.pageId}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {error.type === 'would-click' ? 'dry run' : `#${error.attempts ?? 1}`}
+                  </span>
+                </div>
+                <p className={`text-[10px] text-foreground ${expanded === error.id ? 'whitespace-pre-wrap break-words' : 'line-clamp-2'}`}>
+                  {error.text || '(no text)'}
+                </p>
+              </button>
+
+              {expanded === error.id && (
+                <div className="space-y-1">
+                  {error.hasScreenshot && (
+                    screenshots[error.id]
+                      ? <img src={`data:image/jpeg;base64,${screenshots[error.id]}`} alt="Error panel" className="max-w-full rounded border border-border" />
+                      : <p className="text-[10px] text-muted-foreground italic">{error.id in screenshots ? 'Screenshot not available' : 'Loading screenshot…'}</p>
+                  )}
+                  <details>
+                    <summary className="cursor-pointer text-[10px] text-muted-foreground">Markup</summary>
+                    <pre className="max-h-40 overflow-auto rounded bg-muted/30 p-1 text-[9px] whitespace-pre-wrap break-all">{error.html}</pre>
+                  </details>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
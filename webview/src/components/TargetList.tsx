@@ -0,0 +1,57 @@
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+
+export interface TargetInfo {
+  id: string
+  port: number
+  title: string
+  url: string
+  type: string
+  agent: boolean
+  adapters: string[]
+  status: 'connected' | 'available' | 'filtered' | 'disabled'
+}
+
+interface TargetListProps {
+  targets: TargetInfo[]
+  onToggle: (id: string, enabled: boolean) => void
+}
+
+const STATUS_DOT: Record<TargetInfo['status'], string> = {
+  connected: 'bg-green-400',
+  available: 'bg-yellow-400',
+  filtered: 'bg-muted-foreground',
+  disabled: 'bg-muted-foreground'
+}
+
+// Discovered CDP targets with a per-session toggle (filtered targets follow the settings)
+export function TargetList({ targets, onToggle }: TargetListProps) {
+  return (
+    <div className="max-h-[140px] overflow-y-auto rounded bg-muted/30 p-1 space-y-0.5">
+      {targets.length === 0 ? (
+        <div className="text-[10px] text-muted-foreground italic px-1">No targets found yet</div>
+      ) : (
+        targets.map((target) => (
+          <div key={target.id} className="flex items-center gap-1.5 px-1 text-[10px]">
+            <Checkbox
+              checked={target.status !== 'disabled' && target.status !== 'filtered'}
+              disabled={target.status === 'filtered'}
+              onCheckedChange={(checked) => onToggle(target.id, checked === true)}
+              className="h-3 w-3"
+            />
+            <span className={`h-1.5 w-1.5 shrink-0 rounded-full ${STATUS_DOT[target.status]}`} title={target.status} />
+            <span
+              className={`truncate flex-1 ${target.status === 'connected' ? 'text-foreground' : 'text-muted-foreground'}`}
+              title={`${target.title}\n${target.url}\n${target.type} on port ${target.port}: ${target.status}${target.adapters.length > 0 ? `\nAdapters: ${target.adapters.join(', ')}` : ''}`}
+            >
+              {target.title || target.url}
+            </span>
+            {target.agent && (
+              <Badge variant="secondary" className="px-1 py-0 text-[9px] font-normal shrink-0">agent</Badge>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  )
+}